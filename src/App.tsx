@@ -10,6 +10,7 @@ import {
   Wand2,
   Check,
   ChevronsUpDown,
+  X,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -36,6 +37,14 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
 import {
   Popover,
   PopoverContent,
@@ -64,57 +73,132 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-
-const STORAGE_KEY = "riichi-scoreboard-state-v1";
-
-const PLAYER_LABELS = ["东风家", "南风家", "西风家", "北风家"] as const;
-
-type SeatIndex = 0 | 1 | 2 | 3;
-
-type RoundWind = "东" | "南";
-
-type SettlementType = "tsumo" | "ron" | "draw";
-
-interface HistoryEntry {
-  id: string;
-  type: SettlementType;
-  roundLabel: string;
-  dealerLabel: string;
-  riichiCount: number;
-  description: string;
-  timestamp: string;
-  // 当时四家的昵称快照（按东南西北顺序），旧记录可能不存在
-  playerNames?: string[];
-  // 当局宣告立直的玩家昵称快照（按东南西北顺序），旧记录可能不存在
-  riichiPlayers?: string[];
-  // 当局四家的点差变动（按东南西北顺序），旧记录可能不存在
-  deltas?: number[];
-}
-
-// 仅包含可被撤销 / 重做的核心状态，不嵌套快照自身
-interface CoreSnapshot {
-  points: number[];
-  kyotaku: number; // 场供立直棒数量
-  honba: number;
-  kyokuIndex: number; // 0-3: 东1-4, 4-7: 南1-4, 8: 结束
-  dealerIndex: SeatIndex;
-  history: HistoryEntry[];
-  // 当前四家的昵称（按东南西北顺序）
-  names: string[];
-}
-
-interface GameState {
-  past: CoreSnapshot[];
-  present: CoreSnapshot;
-  future: CoreSnapshot[];
-}
-
-function createDefaultNames(): string[] {
-  return [...PLAYER_LABELS];
+import { formatDiff, formatPoints } from "@/lib/format";
+import {
+  ABORTIVE_DRAW_LABELS,
+  ALL_LAST_STOP_LABELS,
+  BUST_RULE_LABELS,
+  CHOMBO_RULE_LABELS,
+  DEFAULT_RULES,
+  DRAW_RENCHAN_LABELS,
+  END_KYOTAKU_LABELS,
+  FINAL_ROUNDING_LABELS,
+  GAME_EXTENSION_LABELS,
+  GAME_LENGTH_LABELS,
+  MULTI_RON_LABELS,
+  PAO_RULE_LABELS,
+  PLAYER_COUNT_LABELS,
+  PLAYER_COUNT_PRESETS,
+  RANK_TIE_RULE_LABELS,
+  SANMA_TSUMO_LABELS,
+  TRIPLE_RON_LABELS,
+  UMA_PRESETS,
+  getSeatCount,
+  getUmaPresets,
+  resolveUma,
+  sanitizeRules,
+  type AbortiveDrawReason,
+  type AllLastStopRule,
+  type BustRule,
+  type ChomboRule,
+  type DrawRenchanRule,
+  type EndKyotakuRule,
+  type FinalRounding,
+  type GameExtension,
+  type GameLength,
+  type MultiRonRule,
+  type PaoRule,
+  type RankTieRule,
+  type RuleSet,
+  type SanmaTsumoRule,
+  type TripleRonRule,
+  type UmaPreset,
+} from "@/lib/rules";
+import {
+  calcBasePoints,
+  formatLimit,
+  formatPayout,
+  formatYakuman,
+  getAdjustmentError,
+  resolveYakumanMultiple,
+  validateHanFu,
+  settle,
+  type RonWinnerInput,
+  type SettlementInput,
+} from "@/lib/scoring";
+import {
+  ROUND_WINDS,
+  getPlayableWinds,
+  getRoundInfo,
+  isGameOver,
+  toKyokuIndex,
+} from "@/lib/round";
+import {
+  findHandCandidates,
+  parsePayoutCall,
+  type HandCandidate,
+} from "@/lib/payout";
+import {
+  analyzeHand,
+  type HandAnalysis,
+  type HandAnalysisInput,
+} from "@/lib/hand";
+import { type WinnerYaku } from "@/lib/history";
+import {
+  appendEvent,
+  canRedo as canRedoEvents,
+  canUndo as canUndoEvents,
+  changeRules,
+  getEventNames,
+  getPointTotals,
+  getPresent,
+  previewAmendment,
+  redo,
+  replayGame,
+  undo,
+} from "@/lib/events";
+import {
+  getDeclaredRiichi,
+  getKyotakuPoints,
+  getRiichiError,
+  withdrawRiichi,
+} from "@/lib/riichi";
+import {
+  computeSnapshotRanks,
+  computeUma,
+  getSeatOrder,
+  getStartingDealer,
+} from "@/lib/standings";
+import {
+  YAKU_LIST,
+  computeYakuTotal,
+  getYakuConflict,
+  getYakuHan,
+  type YakuTotal,
+} from "@/lib/yaku";
+import {
+  PLAYER_LABELS,
+  type CoreSnapshot,
+  type GameState,
+  type HistoryEntry,
+  type RoundWind,
+  type SeatIndex,
+  type SettlementType,
+  type YakuRecord,
+} from "@/lib/types";
+
+const STORAGE_KEY = "riichi-scoreboard-state-v2";
+// 旧版存档保存完整的快照栈，读取时迁移为以当前快照开局的事件序列
+const LEGACY_STORAGE_KEY = "riichi-scoreboard-state-v1";
+
+function createDefaultNames(count = 4): string[] {
+  return PLAYER_LABELS.slice(0, count);
 }
 
-function sanitizeNames(input: unknown): string[] {
-  if (!Array.isArray(input) || input.length !== 4) return createDefaultNames();
+function sanitizeNames(input: unknown, count = 4): string[] {
+  if (!Array.isArray(input) || input.length !== count) {
+    return createDefaultNames(count);
+  }
   return input.map((value, index) => {
     if (typeof value !== "string") return PLAYER_LABELS[index];
     const trimmed = value.trim();
@@ -122,14 +206,48 @@ function sanitizeNames(input: unknown): string[] {
   });
 }
 
-function createInitialGameState(ignoreLocalStorage = false): GameState {
+function createInitialGameState(
+  ignoreLocalStorage = false,
+  rules: RuleSet = DEFAULT_RULES
+): GameState {
   if (typeof window !== "undefined" && !ignoreLocalStorage) {
     try {
       const raw = window.localStorage.getItem(STORAGE_KEY);
       if (raw) {
         const parsed = JSON.parse(raw) as GameState;
+        if (parsed && parsed.initial && Array.isArray(parsed.events)) {
+          const rules = sanitizeRules(parsed.rules);
+          return {
+            ...parsed,
+            events: parsed.events.map((event) =>
+              event.type === "rules"
+                ? { ...event, rules: sanitizeRules(event.rules) }
+                : event
+            ),
+            head: Math.min(parsed.head ?? 0, parsed.events.length),
+            // 较早的存档没有单独保存开局规则
+            initialRules: parsed.initialRules
+              ? sanitizeRules(parsed.initialRules)
+              : rules,
+            rules,
+          };
+        }
+      }
+      const legacy = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (legacy) {
+        const parsed = JSON.parse(legacy) as {
+          present?: CoreSnapshot;
+          rules?: unknown;
+        };
         if (parsed && parsed.present) {
-          return parsed;
+          const rules = sanitizeRules(parsed.rules);
+          return {
+            initial: parsed.present,
+            initialRules: rules,
+            events: [],
+            head: 0,
+            rules,
+          };
         }
       }
     } catch (e) {
@@ -137,17 +255,21 @@ function createInitialGameState(ignoreLocalStorage = false): GameState {
     }
   }
   return {
-    past: [],
-    present: {
-      points: [25000, 25000, 25000, 25000],
+    initial: {
+      points: createDefaultNames(getSeatCount(rules)).map(
+        () => rules.startingPoints
+      ),
       kyotaku: 0,
       honba: 0,
       kyokuIndex: 0,
       dealerIndex: 0,
       history: [],
-      names: createDefaultNames(),
+      names: createDefaultNames(getSeatCount(rules)),
     },
-    future: [],
+    initialRules: rules,
+    events: [],
+    head: 0,
+    rules,
   };
 }
 
@@ -159,313 +281,381 @@ function formatSettlementType(type: SettlementType): string {
       return "荣和";
     case "draw":
       return "流局";
+    case "abortive":
+      return "途中流局";
+    case "chombo":
+      return "错和";
+    case "adjustment":
+      return "手动调整";
     default:
       return "";
   }
 }
 
-function getRoundInfo(
-  kyokuIndex: number,
-  honba: number
-): {
-  wind: RoundWind;
-  number: number;
-  label: string;
-} {
-  if (kyokuIndex >= 8) {
-    return { wind: "南", number: 4, label: "半庄结束" };
-  }
-  const wind: RoundWind = kyokuIndex < 4 ? "东" : "南";
-  const number = kyokuIndex < 4 ? kyokuIndex + 1 : kyokuIndex - 3;
-  const label = `${wind}${number}局${honba}本场`;
-  return { wind, number, label };
-}
-
-function formatPoints(value: number): string {
-  return new Intl.NumberFormat("en-US").format(value);
-}
-
-function formatDiff(value: number): string {
-  if (value === 0) return "0";
-  const sign = value > 0 ? "+" : "-";
-  return `${sign}${formatPoints(Math.abs(value))}`;
-}
-
-function roundUpToHundred(value: number): number {
-  return Math.ceil(value / 100) * 100;
-}
-
-function calcBasePoints(han: number, fu: number): number {
-  if (han >= 13) return 8000;
-  if (han >= 11) return 6000;
-  if (han >= 8) return 4000;
-  if (han >= 6) return 3000;
-  if (han >= 5) return 2000;
-
-  // 满贯以下按公式 + 切上满贯
-  const raw = fu * Math.pow(2, han + 2);
-
-  // 切上满贯：30符4翻、60符3翻视为满贯
-  if ((han === 4 && fu === 30) || (han === 3 && fu === 60)) {
-    return 2000;
-  }
-
-  if (raw > 2000) {
-    return 2000;
-  }
-  return raw;
-}
-
-function computePlayerRanks(points: number[]): number[] {
-  const entries = points.map((score, index) => ({ index, score }));
-  entries.sort((a, b) => {
-    if (b.score !== a.score) return b.score - a.score;
-    return a.index - b.index;
-  });
-
-  const ranks = new Array(points.length).fill(0);
-  let lastScore: number | null = null;
-  let lastRank = 0;
-
-  entries.forEach((entry, idx) => {
-    if (lastScore !== null && entry.score === lastScore) {
-      ranks[entry.index] = lastRank;
-    } else {
-      const rank = idx + 1;
-      ranks[entry.index] = rank;
-      lastRank = rank;
-      lastScore = entry.score;
-    }
-  });
-
-  return ranks;
-}
-
-function computeUma(points: number[], ranks: number[]): number[] {
-  const uma = [35, 15, -5, -45];
-  const sortedPlayers = points
-    .map((p, i) => ({ p, r: ranks[i], i }))
-    .sort((a, b) => a.r - b.r);
-
-  const results = new Array(4).fill(0);
-  sortedPlayers.forEach((player, i) => {
-    results[player.i] = (player.p - 25000) / 1000 + uma[i];
-  });
-
-  return results;
-}
+const RANK_LABELS = ["第一名", "第二名", "第三名", "第四名"] as const;
 
-interface SettlementPreview {
-  deltas: number[];
-  winnerIndex: SeatIndex | null;
-  kyotakuBefore: number;
-  kyotakuAfter: number;
-  kyotakuIncome: number;
-  riichiIncome: number;
+function formatUmaDescription(uma: number[]): string {
+  return uma
+    .map((value, idx) => `${RANK_LABELS[idx]}${formatDiff(value)}`)
+    .join("，");
 }
 
 /**
- * 预览自摸结算对四家点数与场供的影响
+ * 解析对话框中的番数与符数输入，不合法时返回 null；选择役满时忽略番符
  */
-function computeTsumoPreview(
-  state: CoreSnapshot,
-  winner: SeatIndex | null,
+function parseHanFu(
   hanInput: string,
   fuInput: string,
-  riichiFlags: boolean[]
-): SettlementPreview | null {
-  if (winner === null) return null;
+  yakuman = 0
+): { han: number; fu: number; yakuman?: number } | null {
+  if (yakuman > 0) return { han: 0, fu: 0, yakuman };
   const han = parseInt(hanInput || "0", 10);
   const fu = parseInt(fuInput || "0", 10);
   if (!Number.isFinite(han) || han <= 0 || !Number.isFinite(fu) || fu <= 0) {
     return null;
   }
+  return { han, fu };
+}
 
-  const basePoints = calcBasePoints(han, fu);
-  const deltas = [0, 0, 0, 0];
-  const riichiIndices: SeatIndex[] = [];
+/**
+ * 校验对话框中的番符输入，返回错误说明；选择役满时不校验番符
+ */
+function getHandError(
+  hanInput: string,
+  fuInput: string,
+  yakuman: number,
+  type: "tsumo" | "ron"
+): string | null {
+  if (yakuman > 0) return null;
+  return validateHanFu(Number(hanInput), Number(fuInput), type);
+}
 
-  riichiFlags.forEach((v, idx) => {
-    if (v) {
-      const i = idx as SeatIndex;
-      deltas[i] -= 1000;
-      riichiIndices.push(i);
-    }
-  });
+// 修改历史记录时的和牌者草稿，番符保留为输入框中的文字
+interface HistoryDraftWinner {
+  winner: SeatIndex;
+  han: string;
+  fu: string;
+  yakuman: number;
+}
 
-  const riichiCount = riichiIndices.length;
-  const riichiIncome = riichiCount * 1000;
-  const kyotakuPoints = state.kyotaku * 1000;
-
-  const winnerIsDealer = winner === state.dealerIndex;
-  let totalBaseFromOthers = 0;
-  let totalHonbaFromOthers = 0;
-
-  if (winnerIsDealer) {
-    // 庄家自摸：其余三家各支付2倍基本点 + 本场
-    state.points.forEach((_, idx) => {
-      if (idx === winner) return;
-      const rawBase = 2 * basePoints;
-      const basePay = roundUpToHundred(rawBase);
-      const honbaPay = state.honba * 100;
-      const payment = basePay + honbaPay;
-      deltas[idx] -= payment;
-      totalBaseFromOthers += basePay;
-      totalHonbaFromOthers += honbaPay;
-    });
-  } else {
-    // 闲家自摸：庄家支付2倍基本点，另两闲家各支付1倍基本点
-    state.points.forEach((_, idx) => {
-      if (idx === winner) return;
-      const isDealer = idx === state.dealerIndex;
-      const rawBase = basePoints * (isDealer ? 2 : 1);
-      const basePay = roundUpToHundred(rawBase);
-      const honbaPay = state.honba * 100;
-      const payment = basePay + honbaPay;
-      deltas[idx] -= payment;
-      totalBaseFromOthers += basePay;
-      totalHonbaFromOthers += honbaPay;
-    });
-  }
+// 修改历史记录时的结算草稿
+interface HistoryDraft extends HistoryDraftWinner {
+  type: "tsumo" | "ron" | "draw" | "abortive" | "chombo";
+  loser: SeatIndex;
+  // 一炮多响时其余的荣和者
+  extraWinners: HistoryDraftWinner[];
+  riichi: boolean[];
+  tenpai: boolean[];
+  reason: AbortiveDrawReason;
+  offender: SeatIndex;
+}
 
-  deltas[winner] += totalBaseFromOthers + totalHonbaFromOthers;
-  deltas[winner] += kyotakuPoints + riichiIncome;
+const HISTORY_DRAFT_TYPES: HistoryDraft["type"][] = [
+  "tsumo",
+  "ron",
+  "draw",
+  "abortive",
+  "chombo",
+];
 
-  return {
-    deltas,
-    winnerIndex: winner,
-    kyotakuBefore: state.kyotaku,
-    kyotakuAfter: 0,
-    kyotakuIncome: kyotakuPoints,
-    riichiIncome,
+/**
+ * 由记录保存的结算输入生成草稿；手动调整不提供修改，只能删除
+ */
+function createHistoryDraft(
+  input: SettlementInput,
+  seats: number
+): HistoryDraft | null {
+  if (input.type === "adjustment") return null;
+  const flags = () => Array.from({ length: seats }, () => false);
+  const draft: HistoryDraft = {
+    type: input.type,
+    winner: 0,
+    loser: 1,
+    han: "1",
+    fu: "30",
+    yakuman: 0,
+    extraWinners: [],
+    riichi: input.type === "chombo" ? flags() : [...input.riichi],
+    tenpai: flags(),
+    reason: "kyuushu",
+    offender: 0,
   };
+  switch (input.type) {
+    case "tsumo":
+      return {
+        ...draft,
+        winner: input.winner,
+        han: String(input.han),
+        fu: String(input.fu),
+        yakuman: input.yakuman ?? 0,
+      };
+    case "ron": {
+      const [first, ...extra] = input.winners.map((w) => ({
+        winner: w.winner,
+        han: String(w.han),
+        fu: String(w.fu),
+        yakuman: w.yakuman ?? 0,
+      }));
+      return {
+        ...draft,
+        ...first,
+        loser: input.loser,
+        extraWinners: extra,
+      };
+    }
+    case "draw":
+      return { ...draft, tenpai: [...input.tenpai] };
+    case "abortive":
+      return { ...draft, reason: input.reason };
+    case "chombo":
+      return { ...draft, offender: input.offender };
+  }
 }
 
 /**
- * 预览荣和结算对四家点数与场供的影响
+ * 将草稿还原为结算输入：包牌者与流局满贯沿用原记录
  */
-function computeRonPreview(
-  state: CoreSnapshot,
-  winner: SeatIndex | null,
-  loser: SeatIndex | null,
-  hanInput: string,
-  fuInput: string,
-  riichiFlags: boolean[]
-): SettlementPreview | null {
-  if (winner === null || loser === null || winner === loser) return null;
-  const han = parseInt(hanInput || "0", 10);
-  const fu = parseInt(fuInput || "0", 10);
-  if (!Number.isFinite(han) || han <= 0 || !Number.isFinite(fu) || fu <= 0) {
-    return null;
+function buildDraftInput(
+  draft: HistoryDraft,
+  original: SettlementInput
+): SettlementInput | { error: string } {
+  switch (draft.type) {
+    case "tsumo": {
+      const error = getHandError(draft.han, draft.fu, draft.yakuman, "tsumo");
+      const parsed = parseHanFu(draft.han, draft.fu, draft.yakuman);
+      if (error || !parsed) return { error: error ?? "请填写番符" };
+      const liable =
+        original.type === "tsumo" && original.winner === draft.winner
+          ? original.liable
+          : null;
+      return {
+        type: "tsumo",
+        winner: draft.winner,
+        ...parsed,
+        liable,
+        riichi: draft.riichi,
+      };
+    }
+    case "ron": {
+      const drafted = [draft, ...draft.extraWinners];
+      const seats = drafted.map((w) => w.winner);
+      if (seats.includes(draft.loser)) {
+        return { error: "荣和者与放铳者不能是同一人" };
+      }
+      if (new Set(seats).size !== seats.length) {
+        return { error: "荣和者不能重复" };
+      }
+      const originalWinners = original.type === "ron" ? original.winners : [];
+      const winners: RonWinnerInput[] = [];
+      for (const [index, w] of drafted.entries()) {
+        const error = getHandError(w.han, w.fu, w.yakuman, "ron");
+        const parsed = parseHanFu(w.han, w.fu, w.yakuman);
+        if (error || !parsed) {
+          const message = error ?? "请填写番符";
+          return {
+            error:
+              drafted.length > 1 ? `荣和者 ${index + 1}：${message}` : message,
+          };
+        }
+        // 包牌者沿用原记录中同一荣和者的设置
+        const liable =
+          originalWinners.find((o) => o.winner === w.winner)?.liable ?? null;
+        winners.push({ winner: w.winner, ...parsed, liable });
+      }
+      return {
+        type: "ron",
+        loser: draft.loser,
+        winners,
+        riichi: draft.riichi,
+        riichiVoided:
+          original.type === "ron" && original.loser === draft.loser
+            ? original.riichiVoided
+            : undefined,
+      };
+    }
+    case "draw":
+      return {
+        type: "draw",
+        tenpai: draft.tenpai,
+        nagashi: original.type === "draw" ? original.nagashi : undefined,
+        riichi: draft.riichi,
+      };
+    case "abortive":
+      return { type: "abortive", reason: draft.reason, riichi: draft.riichi };
+    case "chombo":
+      return { type: "chombo", offender: draft.offender };
   }
+}
 
-  const basePoints = calcBasePoints(han, fu);
-  const deltas = [0, 0, 0, 0];
-  const riichiIndices: SeatIndex[] = [];
+/**
+ * 将报点反推为番符候选，无法识别或没有对应和牌时给出错误说明
+ */
+function lookupPayout(
+  text: string,
+  type: "tsumo" | "ron",
+  winnerIsDealer: boolean,
+  honba: number,
+  rules: RuleSet
+): { candidates: HandCandidate[]; error: string | null } {
+  if (!text.trim()) return { candidates: [], error: null };
+  const call = parsePayoutCall(text, type, winnerIsDealer);
+  if (!call) {
+    return {
+      candidates: [],
+      error:
+        type === "ron"
+          ? "无法识别的点数，请输入荣和总点数，如 7700"
+          : winnerIsDealer
+          ? "无法识别的点数，庄家自摸请输入每家支付，如 2600 all"
+          : "无法识别的点数，闲家自摸请输入 闲家/庄家 支付，如 1300-2600",
+    };
+  }
+  const candidates = findHandCandidates(
+    call,
+    type,
+    winnerIsDealer,
+    honba,
+    rules
+  );
+  return {
+    candidates,
+    error: candidates.length === 0 ? "没有合法的和牌能得到该点数" : null,
+  };
+}
 
-  riichiFlags.forEach((v, idx) => {
-    if (v) {
-      const i = idx as SeatIndex;
-      deltas[i] -= 1000;
-      riichiIndices.push(i);
-    }
-  });
+/**
+ * 对话框中可选择的役满倍数，0 表示按番符计算
+ */
+function yakumanOptions(rules: RuleSet): number[] {
+  const max = rules.yakumanStacking ? Math.max(1, rules.maxYakumanMultiple) : 1;
+  return Array.from({ length: max + 1 }, (_, i) => i);
+}
 
-  const riichiCount = riichiIndices.length;
-  const riichiIncome = riichiCount * 1000;
-  const kyotakuPoints = state.kyotaku * 1000;
+// 手牌分析中由用户填写的部分，自风、场风与自摸由对话框决定
+type HandFields = Omit<HandAnalysisInput, "tsumo" | "seatWind" | "roundWind">;
 
-  const winnerIsDealer = winner === state.dealerIndex;
-  const multiplier = winnerIsDealer ? 6 : 4;
-  const rawBase = multiplier * basePoints;
-  const basePay = roundUpToHundred(rawBase);
-  const honbaPay = state.honba * 300;
-  const payment = basePay + honbaPay;
+type HandTextField = "hand" | "winningTile" | "melds" | "dora" | "ura";
 
-  deltas[loser] -= payment;
-  deltas[winner] += payment + kyotakuPoints + riichiIncome;
+type HandFlagField =
+  | "riichi"
+  | "doubleRiichi"
+  | "ippatsu"
+  | "rinshan"
+  | "chankan"
+  | "haitei";
 
+function createEmptyHandFields(): HandFields {
   return {
-    deltas,
-    winnerIndex: winner,
-    kyotakuBefore: state.kyotaku,
-    kyotakuAfter: 0,
-    kyotakuIncome: kyotakuPoints,
-    riichiIncome,
+    hand: "",
+    winningTile: "",
+    melds: "",
+    dora: "",
+    ura: "",
+    nukidora: 0,
+    riichi: false,
+    doubleRiichi: false,
+    ippatsu: false,
+    rinshan: false,
+    chankan: false,
+    haitei: false,
   };
 }
 
+const HAND_TEXT_FIELDS: {
+  key: HandTextField;
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "hand", label: "门前手牌", placeholder: "如 234567m234p5699s" },
+  { key: "winningTile", label: "和了牌", placeholder: "如 4s" },
+  { key: "melds", label: "副露", placeholder: "如 555z 678s [2222p]" },
+  { key: "dora", label: "宝牌指示牌", placeholder: "如 3m" },
+  { key: "ura", label: "里宝牌指示牌", placeholder: "如 1p" },
+];
+
+// 选牌面板中的牌，0 为赤五
+const TILE_PICKER_ROWS = [
+  "1234506789m",
+  "1234506789p",
+  "1234506789s",
+  "1234567z",
+].map((row) => [...row.slice(0, -1)].map((n) => `${n}${row.slice(-1)}`));
+
+const HONOR_TILE_NAMES = ["东", "南", "西", "北", "白", "发", "中"];
+
+function formatTileLabel(tile: string): string {
+  if (tile.endsWith("z")) return HONOR_TILE_NAMES[Number(tile[0]) - 1];
+  return tile.startsWith("0") ? `赤5${tile[1]}` : tile;
+}
+
 /**
- * 预览流局结算对四家点数与场供的影响
+ * 向 mpsz 记法末尾追加一张牌，同花色时合并为 123m 的写法
  */
-function computeDrawPreview(
-  state: CoreSnapshot,
-  tenpaiFlags: boolean[],
-  riichiFlags: boolean[]
-): SettlementPreview {
-  const deltas = [0, 0, 0, 0];
-  const riichiIndices: SeatIndex[] = [];
-
-  riichiFlags.forEach((v, idx) => {
-    if (v) {
-      const i = idx as SeatIndex;
-      deltas[i] -= 1000;
-      riichiIndices.push(i);
-    }
-  });
-
-  const riichiCount = riichiIndices.length;
-  const riichiIncome = riichiCount * 1000;
-
-  const tenpaiCount = tenpaiFlags.filter(Boolean).length;
-
-  if (tenpaiCount === 1) {
-    const tenpaiIndex = tenpaiFlags.findIndex(Boolean) as SeatIndex;
-    state.points.forEach((_, idx) => {
-      if (idx === tenpaiIndex) return;
-      deltas[idx] -= 1000;
-      deltas[tenpaiIndex] += 1000;
-    });
-  } else if (tenpaiCount === 2) {
-    const tenpaiIndices = tenpaiFlags
-      .map((v, idx) => (v ? (idx as SeatIndex) : null))
-      .filter((v): v is SeatIndex => v !== null);
-    const notTenpaiIndices = tenpaiFlags
-      .map((v, idx) => (!v ? (idx as SeatIndex) : null))
-      .filter((v): v is SeatIndex => v !== null);
-    notTenpaiIndices.forEach((i) => {
-      deltas[i] -= 1500;
-    });
-    tenpaiIndices.forEach((i) => {
-      deltas[i] += 1500;
-    });
-  } else if (tenpaiCount === 3) {
-    const notIndex = tenpaiFlags.findIndex((v) => !v) as SeatIndex;
-    state.points.forEach((_, idx) => {
-      if (idx === notIndex) return;
-      deltas[notIndex] -= 1000;
-      deltas[idx] += 1000;
-    });
+function appendTile(text: string, tile: string): string {
+  const [digit, suit] = tile;
+  const trimmed = text.trimEnd();
+  if (trimmed.endsWith(suit) && !trimmed.endsWith("]")) {
+    return `${trimmed.slice(0, -1)}${digit}${suit}`;
   }
+  return `${text}${tile}`;
+}
 
-  const newKyotaku = state.kyotaku + riichiCount;
+/**
+ * 删除 mpsz 记法中的最后一张牌
+ */
+function removeLastTile(text: string): string {
+  const trimmed = text.trimEnd();
+  const match = trimmed.match(/(\d)(\d*)([mpsz])$/);
+  if (!match) return trimmed.slice(0, -1);
+  const head = trimmed.slice(0, match.index);
+  return match[2]
+    ? `${head}${match[1]}${match[2].slice(0, -1)}${match[3]}`
+    : head;
+}
 
-  return {
-    deltas,
-    winnerIndex: null,
-    kyotakuBefore: state.kyotaku,
-    kyotakuAfter: newKyotaku,
-    kyotakuIncome: 0,
-    riichiIncome,
-  };
+/**
+ * 按和牌者的座位与当前场况分析手牌，未填写手牌时返回 null
+ */
+function runHandAnalysis(
+  fields: HandFields,
+  tsumo: boolean,
+  winner: SeatIndex | null,
+  snapshot: CoreSnapshot,
+  rules: RuleSet
+): HandAnalysis | { error: string } | null {
+  if (winner === null || !fields.hand.trim()) return null;
+  return analyzeHand(
+    {
+      ...fields,
+      tsumo,
+      seatWind:
+        (winner - snapshot.dealerIndex + snapshot.points.length) %
+        snapshot.points.length,
+      roundWind: ROUND_WINDS.indexOf(getRoundInfo(snapshot, rules).wind),
+    },
+    rules
+  );
 }
 
-function ensureSeatIndex(value: number): SeatIndex {
-  return (value % 4) as SeatIndex;
+// 役种选择中的分组，按门前番数归类
+const YAKU_GROUPS = [
+  { label: "一番", han: [1] },
+  { label: "二番", han: [2] },
+  { label: "三番", han: [3] },
+  { label: "六番", han: [6] },
+  { label: "役满", han: [13] },
+].map(({ label, han }) => ({
+  label,
+  yaku: YAKU_LIST.filter((yaku) => han.includes(yaku.closedHan)),
+}));
+
+function formatYakuRecord(yaku: YakuRecord): string {
+  return yaku.han >= 13 ? `${yaku.name} 役满` : `${yaku.name} ${yaku.han} 番`;
 }
 
 function App() {
   const [state, setState] = useState<GameState>(() => createInitialGameState());
+  const present = useMemo(() => getPresent(state), [state]);
   const [sessionStart, setSessionStart] = useState(() => Date.now());
   const [now, setNow] = useState(() => new Date());
 
@@ -474,14 +664,23 @@ function App() {
   const [tsumoOpen, setTsumoOpen] = useState(false);
   const [ronOpen, setRonOpen] = useState(false);
   const [drawOpen, setDrawOpen] = useState(false);
+  const [chomboOpen, setChomboOpen] = useState(false);
+  const [adjustOpen, setAdjustOpen] = useState(false);
   const [settleOpen, setSettleOpen] = useState(false);
   const [editNamesOpen, setEditNamesOpen] = useState(false);
   const [editNames, setEditNames] = useState<string[]>(() =>
     createDefaultNames()
   );
+  const [editRulesOpen, setEditRulesOpen] = useState(false);
+  const [editRules, setEditRules] = useState<RuleSet>(() => ({
+    ...DEFAULT_RULES,
+  }));
+  // 更改对局人数会清除已有记录，需要再次确认
+  const [seatChangeOpen, setSeatChangeOpen] = useState(false);
   const [resetAlsoNames, setResetAlsoNames] = useState(false);
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
   const [shouldSettle, setShouldSettle] = useState(false);
+  const [dealerStopOpen, setDealerStopOpen] = useState(false);
   const [comboboxOpen, setComboboxOpen] = useState([
     false,
     false,
@@ -499,6 +698,12 @@ function App() {
   const [tsumoWinner, setTsumoWinner] = useState<SeatIndex | null>(0);
   const [tsumoHan, setTsumoHan] = useState<string>("3");
   const [tsumoFu, setTsumoFu] = useState<string>("40");
+  const [tsumoYakuman, setTsumoYakuman] = useState(0);
+  // 由手牌分析或役种选择填入番符时记录的役种
+  const [tsumoYaku, setTsumoYaku] = useState<YakuRecord[]>([]);
+  // 按报点录入，例如 1300-2600
+  const [tsumoAmount, setTsumoAmount] = useState("");
+  const [tsumoLiable, setTsumoLiable] = useState<SeatIndex | null>(null);
   const [tsumoRiichi, setTsumoRiichi] = useState<boolean[]>([
     false,
     false,
@@ -511,14 +716,33 @@ function App() {
   const [ronLoser, setRonLoser] = useState<SeatIndex | null>(1);
   const [ronHan, setRonHan] = useState<string>("3");
   const [ronFu, setRonFu] = useState<string>("40");
+  const [ronYakuman, setRonYakuman] = useState(0);
+  const [ronYaku, setRonYaku] = useState<YakuRecord[]>([]);
+  const [ronAmount, setRonAmount] = useState("");
+  const [ronLiable, setRonLiable] = useState<SeatIndex | null>(null);
+  // 一炮多响时的其余荣和者
+  const [ronExtraWinners, setRonExtraWinners] = useState<
+    {
+      winner: SeatIndex | null;
+      han: string;
+      fu: string;
+      yakuman: number;
+      liable: SeatIndex | null;
+    }[]
+  >([]);
   const [ronRiichi, setRonRiichi] = useState<boolean[]>([
     false,
     false,
     false,
     false,
   ]);
+  // 放铳牌是放铳者的立直宣言牌，立直不成立
+  const [ronRiichiVoided, setRonRiichiVoided] = useState(false);
 
-  // 流局
+  // 流局：荒牌流局或途中流局的原因
+  const [drawMode, setDrawMode] = useState<"exhaustive" | AbortiveDrawReason>(
+    "exhaustive"
+  );
   const [drawTenpai, setDrawTenpai] = useState<boolean[]>([
     false,
     false,
@@ -531,6 +755,43 @@ function App() {
     false,
     false,
   ]);
+  const [drawNagashi, setDrawNagashi] = useState<boolean[]>([
+    false,
+    false,
+    false,
+    false,
+  ]);
+
+  // 错和
+  const [chomboOffender, setChomboOffender] = useState<SeatIndex>(0);
+
+  // 手动调整
+  const [adjustDeltas, setAdjustDeltas] = useState<string[]>([]);
+  const [adjustReason, setAdjustReason] = useState("");
+  const [adjustNonZeroSum, setAdjustNonZeroSum] = useState(false);
+
+  // 修改历史记录：正在修改的记录、结算草稿与是否删除该记录
+  const [historyEditId, setHistoryEditId] = useState<string | null>(null);
+  const [historyDraft, setHistoryDraft] = useState<HistoryDraft | null>(null);
+  const [historyDelete, setHistoryDelete] = useState(false);
+
+  // 手牌分析（自摸与荣和对话框共用）
+  const [handAnalyzerOpen, setHandAnalyzerOpen] = useState(false);
+  const [handFields, setHandFields] = useState<HandFields>(() =>
+    createEmptyHandFields()
+  );
+  const [handPickerTarget, setHandPickerTarget] =
+    useState<HandTextField>("hand");
+
+  // 役种选择（自摸与荣和对话框共用）
+  const [yakuPickerOpen, setYakuPickerOpen] = useState(false);
+  const [yakuListOpen, setYakuListOpen] = useState(false);
+  const [yakuSelected, setYakuSelected] = useState<string[]>([]);
+  const [yakuMenzen, setYakuMenzen] = useState(true);
+  const [yakuDora, setYakuDora] = useState("0");
+  const [yakuAka, setYakuAka] = useState("0");
+  const [yakuUra, setYakuUra] = useState("0");
+  const [yakuNuki, setYakuNuki] = useState("0");
 
   // time
   useEffect(() => {
@@ -542,6 +803,7 @@ function App() {
   useEffect(() => {
     if (typeof window === "undefined") return;
     window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
   }, [state]);
 
   useEffect(() => {
@@ -550,11 +812,14 @@ function App() {
       setSettleOpen(true);
       setShouldSettle(false);
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [shouldSettle]);
 
-  const roundInfo = getRoundInfo(state.present.kyokuIndex, state.present.honba);
-  const totalPoints = state.present.points.reduce((sum, v) => sum + v, 0);
+  const roundInfo = getRoundInfo(present, state.rules);
+  // 场上的立直棒（含本局已宣告的立直）也计入总点数
+  const { total: totalPoints, expected: expectedTotalPoints } = getPointTotals(
+    state,
+    present
+  );
 
   const beijingTime = useMemo(() => {
     try {
@@ -582,20 +847,26 @@ function App() {
 
   const diffMatrix = useMemo(
     () =>
-      state.present.points.map((score, i) =>
-        state.present.points.map((other, j) => (i === j ? 0 : other - score))
+      present.points.map((score, i) =>
+        present.points.map((other, j) => (i === j ? 0 : other - score))
       ),
-    [state.present.points]
+    [present.points]
   );
 
   const playerRanks = useMemo(
-    () => computePlayerRanks(state.present.points),
-    [state.present.points]
+    () => computeSnapshotRanks(present, state.rules),
+    [present, state.rules]
   );
 
   const uma = useMemo(
-    () => computeUma(state.present.points, playerRanks),
-    [state.present.points, playerRanks]
+    () =>
+      computeUma(
+        present.points,
+        playerRanks,
+        state.rules,
+        present.umaPenalties
+      ),
+    [present.points, present.umaPenalties, playerRanks, state.rules]
   );
 
   const bestRank = useMemo(
@@ -610,611 +881,1017 @@ function App() {
 
   const rankingList = useMemo(
     () =>
-      state.present.points
+      present.points
         .map((score, index) => ({
           index,
           score,
           rank: playerRanks[index] ?? 0,
-          name: state.present.names[index],
+          name: present.names[index],
         }))
         .sort((a, b) => {
           if (a.rank !== b.rank) return a.rank - b.rank;
-          return a.index - b.index;
+          const startingDealer = getStartingDealer(present);
+          const seats = present.points.length;
+          return (
+            getSeatOrder(a.index, startingDealer, seats) -
+            getSeatOrder(b.index, startingDealer, seats)
+          );
         }),
-    [state.present.points, state.present.names, playerRanks]
+    [present, playerRanks]
   );
 
-  const tsumoPreview = useMemo(
+  const tsumoError = useMemo(() => {
+    if (tsumoWinner === null) return "请选择自摸者";
+    return getHandError(tsumoHan, tsumoFu, tsumoYakuman, "tsumo");
+  }, [tsumoWinner, tsumoHan, tsumoFu, tsumoYakuman]);
+
+  const tsumoInput = useMemo<SettlementInput | null>(() => {
+    const parsed = parseHanFu(tsumoHan, tsumoFu, tsumoYakuman);
+    if (tsumoError || tsumoWinner === null || !parsed) return null;
+    return {
+      type: "tsumo",
+      winner: tsumoWinner,
+      ...parsed,
+      liable: tsumoLiable,
+      riichi: tsumoRiichi,
+    };
+  }, [
+    tsumoError,
+    tsumoWinner,
+    tsumoHan,
+    tsumoFu,
+    tsumoYakuman,
+    tsumoLiable,
+    tsumoRiichi,
+  ]);
+
+  const ronError = useMemo(() => {
+    if (ronWinner === null) return "请选择荣和者";
+    if (ronLoser === null) return "请选择放铳者";
+    const seats = [ronWinner, ...ronExtraWinners.map((w) => w.winner)];
+    const missing = seats.findIndex((seat) => seat === null);
+    if (missing !== -1) return `请选择荣和者 ${missing + 1}`;
+    if (seats.includes(ronLoser)) return "荣和者与放铳者不能是同一人";
+    if (new Set(seats).size !== seats.length) return "荣和者不能重复";
+    const mainError = getHandError(ronHan, ronFu, ronYakuman, "ron");
+    if (mainError) {
+      return ronExtraWinners.length > 0 ? `荣和者 1：${mainError}` : mainError;
+    }
+    for (const [i, extra] of ronExtraWinners.entries()) {
+      const error = getHandError(extra.han, extra.fu, extra.yakuman, "ron");
+      if (error) return `荣和者 ${i + 2}：${error}`;
+    }
+    return null;
+  }, [ronWinner, ronLoser, ronHan, ronFu, ronYakuman, ronExtraWinners]);
+
+  const ronInput = useMemo<SettlementInput | null>(() => {
+    const parsed = parseHanFu(ronHan, ronFu, ronYakuman);
+    if (ronError || ronWinner === null || ronLoser === null || !parsed) {
+      return null;
+    }
+    const winners: RonWinnerInput[] = [
+      { winner: ronWinner, ...parsed, liable: ronLiable },
+    ];
+    for (const extra of ronExtraWinners) {
+      const extraParsed = parseHanFu(extra.han, extra.fu, extra.yakuman);
+      if (extra.winner === null || !extraParsed) return null;
+      winners.push({
+        winner: extra.winner,
+        ...extraParsed,
+        liable: extra.liable,
+      });
+    }
+    return {
+      type: "ron",
+      loser: ronLoser,
+      winners,
+      riichi: ronRiichi,
+      riichiVoided: ronRiichi[ronLoser] && ronRiichiVoided,
+    };
+  }, [
+    ronError,
+    ronWinner,
+    ronLoser,
+    ronHan,
+    ronFu,
+    ronYakuman,
+    ronLiable,
+    ronExtraWinners,
+    ronRiichi,
+    ronRiichiVoided,
+  ]);
+
+  const drawInput = useMemo<SettlementInput>(
     () =>
-      computeTsumoPreview(
-        state.present,
-        tsumoWinner,
-        tsumoHan,
-        tsumoFu,
-        tsumoRiichi
+      drawMode === "exhaustive"
+        ? {
+            type: "draw",
+            tenpai: drawTenpai,
+            nagashi: drawNagashi,
+            riichi: drawRiichi,
+          }
+        : { type: "abortive", reason: drawMode, riichi: drawRiichi },
+    [drawMode, drawTenpai, drawNagashi, drawRiichi]
+  );
+
+  const chomboInput = useMemo<SettlementInput>(
+    () => ({ type: "chombo", offender: chomboOffender }),
+    [chomboOffender]
+  );
+
+  const adjustParsed = useMemo(
+    () => ({
+      deltas: present.points.map((_, idx) =>
+        Number(adjustDeltas[idx]?.trim() || 0)
       ),
-    [state.present, tsumoWinner, tsumoHan, tsumoFu, tsumoRiichi]
+      reason: adjustReason,
+      allowNonZeroSum: adjustNonZeroSum,
+    }),
+    [present.points, adjustDeltas, adjustReason, adjustNonZeroSum]
+  );
+
+  const adjustError = useMemo(
+    () => getAdjustmentError(adjustParsed, present.points.length),
+    [adjustParsed, present.points.length]
+  );
+
+  const historyEditEntry = useMemo(
+    () => present.history.find((entry) => entry.id === historyEditId) ?? null,
+    [present.history, historyEditId]
+  );
+
+  // 修改后重算的结果；删除时 input 为 null
+  const historyRewrite = useMemo(() => {
+    if (!historyEditEntry) return null;
+    let input: SettlementInput | null = null;
+    if (!historyDelete) {
+      if (!historyDraft || !historyEditEntry.input) {
+        return { error: "该记录没有保存结算输入，只能删除" };
+      }
+      const built = buildDraftInput(historyDraft, historyEditEntry.input);
+      if ("error" in built) return built;
+      input = built;
+    }
+    return previewAmendment(state, historyEditEntry.id, input);
+  }, [state, historyEditEntry, historyDraft, historyDelete]);
+
+  const historyRewriteRanks = useMemo(
+    () =>
+      historyRewrite && !("error" in historyRewrite)
+        ? computeSnapshotRanks(historyRewrite.present, state.rules)
+        : null,
+    [historyRewrite, state.rules]
+  );
+
+  const adjustSum = adjustParsed.deltas.reduce(
+    (sum, v) => sum + (Number.isFinite(v) ? v : 0),
+    0
+  );
+
+  // 退回本局已宣告的立直棒，结算按对话框中的立直情况重新计算
+  const settleBase = useMemo(
+    () => withdrawRiichi(present, state.rules),
+    [present, state.rules]
+  );
+
+  const tsumoPreview = useMemo(
+    () => (tsumoInput ? settle(settleBase, tsumoInput, state.rules) : null),
+    [settleBase, state.rules, tsumoInput]
   );
 
   const ronPreview = useMemo(
+    () => (ronInput ? settle(settleBase, ronInput, state.rules) : null),
+    [settleBase, state.rules, ronInput]
+  );
+
+  const tsumoAmountLookup = useMemo(
+    () =>
+      lookupPayout(
+        tsumoAmount,
+        "tsumo",
+        tsumoWinner === present.dealerIndex,
+        present.honba,
+        state.rules
+      ),
+    [tsumoAmount, tsumoWinner, present.dealerIndex, present.honba, state.rules]
+  );
+
+  const ronAmountLookup = useMemo(
     () =>
-      computeRonPreview(
-        state.present,
-        ronWinner,
-        ronLoser,
-        ronHan,
-        ronFu,
-        ronRiichi
+      lookupPayout(
+        ronAmount,
+        "ron",
+        ronWinner === present.dealerIndex,
+        present.honba,
+        state.rules
+      ),
+    [ronAmount, ronWinner, present.dealerIndex, present.honba, state.rules]
+  );
+
+  // 标准点数写法（不含本场棒），荣和时按荣和者依次列出
+  const tsumoPayout = useMemo(() => {
+    if (tsumoInput?.type !== "tsumo") return null;
+    const { han, fu, yakuman, winner } = tsumoInput;
+    return formatPayout(
+      calcBasePoints(han, fu, state.rules, yakuman),
+      "tsumo",
+      winner === present.dealerIndex,
+      state.rules
+    );
+  }, [tsumoInput, state.rules, present.dealerIndex]);
+
+  const ronPayouts = useMemo(() => {
+    if (ronInput?.type !== "ron") return [];
+    return ronInput.winners.map((w) => ({
+      winner: w.winner,
+      payout: formatPayout(
+        calcBasePoints(w.han, w.fu, state.rules, w.yakuman),
+        "ron",
+        w.winner === present.dealerIndex,
+        state.rules
       ),
-    [state.present, ronWinner, ronLoser, ronHan, ronFu, ronRiichi]
+    }));
+  }, [ronInput, state.rules, present.dealerIndex]);
+
+  const tsumoHandAnalysis = useMemo(
+    () => runHandAnalysis(handFields, true, tsumoWinner, present, state.rules),
+    [handFields, tsumoWinner, present, state.rules]
+  );
+
+  // 一炮多响时只分析第一位荣和者的手牌
+  const ronHandAnalysis = useMemo(
+    () => runHandAnalysis(handFields, false, ronWinner, present, state.rules),
+    [handFields, ronWinner, present, state.rules]
+  );
+
+  const yakuSelection = useMemo(
+    () => ({
+      selected: yakuSelected,
+      menzen: yakuMenzen,
+      dora: Math.max(0, parseInt(yakuDora || "0", 10) || 0),
+      aka: Math.max(0, parseInt(yakuAka || "0", 10) || 0),
+      ura: Math.max(0, parseInt(yakuUra || "0", 10) || 0),
+      nuki: Math.max(0, parseInt(yakuNuki || "0", 10) || 0),
+    }),
+    [yakuSelected, yakuMenzen, yakuDora, yakuAka, yakuUra, yakuNuki]
+  );
+
+  const tsumoYakuTotal = useMemo(
+    () => computeYakuTotal(yakuSelection, "tsumo", state.rules),
+    [yakuSelection, state.rules]
+  );
+
+  const ronYakuTotal = useMemo(
+    () => computeYakuTotal(yakuSelection, "ron", state.rules),
+    [yakuSelection, state.rules]
   );
 
   const drawPreview = useMemo(
-    () => computeDrawPreview(state.present, drawTenpai, drawRiichi),
-    [state.present, drawTenpai, drawRiichi]
+    () => settle(settleBase, drawInput, state.rules),
+    [settleBase, state.rules, drawInput]
+  );
+
+  const chomboPreview = useMemo(
+    () => settle(settleBase, chomboInput, state.rules),
+    [settleBase, state.rules, chomboInput]
   );
 
-  const canUndo = state.past.length > 0;
-  const canRedo = state.future.length > 0;
+  function formatBustNames(indices: SeatIndex[]): string {
+    return indices.map((i) => present.names[i]).join("、");
+  }
+
+  const canUndo = canUndoEvents(state);
+  const canRedo = canRedoEvents(state);
 
   const isGameFinished = useMemo(() => {
-    return state.present.kyokuIndex >= 8;
-  }, [state.present.kyokuIndex]);
+    return isGameOver(present, state.rules);
+  }, [present, state.rules]);
 
   const historicalNames = useMemo(() => {
-    const pastNames = state.past.flatMap((snapshot) => snapshot.names || []);
-    const presentNames = Array.isArray(state.present.names)
-      ? state.present.names
-      : [];
+    const pastNames = [...state.initial.names, ...getEventNames(state)];
+    const presentNames = Array.isArray(present.names) ? present.names : [];
     const allNames = [...pastNames, ...presentNames];
     const uniqueNames = [...new Set(allNames)];
     return uniqueNames.filter(
       (name) => name && !(PLAYER_LABELS as unknown as string[]).includes(name)
     );
-  }, [state.past, state.present.names]);
+  }, [state, present.names]);
 
   function resetGame(resetNames: boolean) {
     setState(() => {
-      const initial = createInitialGameState(true);
+      const initial = createInitialGameState(true, state.rules);
       if (!resetNames) {
-        initial.present.names = state.present.names;
+        initial.initial.names = present.names;
       }
       return initial;
     });
     setSessionStart(Date.now());
   }
 
-  function buildHistoryEntry(
-    type: SettlementType,
-    description: string,
-    riichiCount: number,
-    riichiPlayers: string[],
-    deltas: number[]
-  ): HistoryEntry {
-    const { label } = getRoundInfo(
-      state.present.kyokuIndex,
-      state.present.honba
+  function handleEditRoundConfirm() {
+    const kyokuIndex = toKyokuIndex(editWind, editNumber, state.rules);
+    setState((prev) =>
+      appendEvent(prev, {
+        type: "round",
+        kyokuIndex,
+        dealerIndex: editDealer,
+        honba: Math.max(0, editHonba),
+      })
     );
-    const dealerLabel =
-      state.present.names[state.present.dealerIndex] ??
-      PLAYER_LABELS[state.present.dealerIndex];
-    return {
-      id: `${Date.now()}-${state.present.history.length}`,
-      type,
-      roundLabel: label,
-      dealerLabel,
-      riichiCount,
-      description,
-      timestamp: new Date().toLocaleString("zh-CN", {
-        hour12: false,
-      }),
-      playerNames: [...state.present.names],
-      riichiPlayers: [...riichiPlayers],
-      deltas: [...deltas],
-    };
+    setEditRoundOpen(false);
   }
 
-  function applyDeltas(points: number[], deltas: number[]): number[] {
-    return points.map((p, idx) => p + (deltas[idx] ?? 0));
+  function handleEditRulesConfirm() {
+    const seatsChanged =
+      getSeatCount(sanitizeRules(editRules)) !== present.points.length;
+    // 旧版存档迁移的对局没有事件，但初始快照中可能已有记录
+    const hasRecords = state.events.length > 0 || present.history.length > 0;
+    if (seatsChanged && hasRecords) {
+      setSeatChangeOpen(true);
+      return;
+    }
+    applyEditRules();
   }
 
-  function handleEditRoundConfirm() {
-    const kyokuIndex = editWind === "东" ? editNumber - 1 : 3 + editNumber;
-    setState((prev) => ({
-      ...prev,
-      present: {
-        ...prev.present,
-        honba: Math.max(0, editHonba),
-        kyokuIndex: kyokuIndex,
-        dealerIndex: editDealer,
-      },
-    }));
-    setEditRoundOpen(false);
+  function applyEditRules() {
+    setState((prev) => {
+      const rules = sanitizeRules(editRules);
+      const current = getPresent(prev);
+      // 切换三麻 / 四麻时按新的人数重新开始对局，保留已有的昵称
+      const seats = getSeatCount(rules);
+      if (seats !== current.points.length) {
+        const initial = createInitialGameState(true, rules);
+        initial.initial.names = createDefaultNames(seats).map(
+          (label, idx) => current.names[idx] ?? label
+        );
+        return initial;
+      }
+      // 尚未录入任何结算时，配给原点立即生效；其余规则只影响之后的结算
+      const unstarted = current.history.length === 0;
+      return changeRules(
+        unstarted
+          ? {
+              ...prev,
+              initial: {
+                ...prev.initial,
+                points: prev.initial.points.map(() => rules.startingPoints),
+              },
+            }
+          : prev,
+        rules
+      );
+    });
+    setEditRulesOpen(false);
+    setSeatChangeOpen(false);
   }
 
   function handleUndoLastSettlement() {
-    setState((prev) => {
-      const { past, present, future } = prev;
-      if (past.length === 0) return prev;
-      const newPast = past.slice(0, past.length - 1);
-      const newPresent = past[past.length - 1];
-      const newFuture = [present, ...future];
-      return { past: newPast, present: newPresent, future: newFuture };
-    });
+    setState((prev) => undo(prev));
   }
 
   function handleRedoLastSettlement() {
+    setState((prev) => redo(prev));
+  }
+
+  /** 宣告立直：立即支付立直棒，可撤销 */
+  function handleDeclareRiichi(seat: SeatIndex) {
     setState((prev) => {
-      const { past, present, future } = prev;
-      if (future.length === 0) return prev;
-      const newPast = [...past, present];
-      const newPresent = future[0];
-      const newFuture = future.slice(1);
-      return { past: newPast, present: newPresent, future: newFuture };
+      const current = getPresent(prev);
+      if (current.finished) return prev;
+      if (getRiichiError(current, seat, prev.rules)) return prev;
+      return appendEvent(prev, { type: "riichi", seat });
     });
   }
 
-  function handleTsumoConfirm(): boolean {
-    if (tsumoWinner === null) return false;
-    const han = parseInt(tsumoHan || "0", 10);
-    const fu = parseInt(tsumoFu || "0", 10);
-    if (!Number.isFinite(han) || han <= 0 || !Number.isFinite(fu) || fu <= 0) {
-      window.alert("请填写合法的番数和符数");
-      return false;
-    }
-
+  /**
+   * 通过结算引擎计算并提交一次结算，写入历史记录并推进场次
+   */
+  function commitSettlement(
+    input: SettlementInput,
+    winnerYaku: WinnerYaku[] = []
+  ) {
     setState((prev) => {
-      const winner = tsumoWinner as SeatIndex;
-      const winnerName = prev.present.names[winner] ?? PLAYER_LABELS[winner];
-      const dealerName =
-        prev.present.names[prev.present.dealerIndex] ??
-        PLAYER_LABELS[prev.present.dealerIndex];
-      const basePoints = calcBasePoints(han, fu);
-      const deltas = [0, 0, 0, 0];
-      const riichiIndices: SeatIndex[] = [];
-
-      tsumoRiichi.forEach((v, idx) => {
-        if (v) {
-          const i = idx as SeatIndex;
-          deltas[i] -= 1000;
-          riichiIndices.push(i);
-        }
-      });
+      const finished = getPresent(prev).finished === true;
+      const next = appendEvent(prev, { type: "settlement", input, winnerYaku });
+      const { snapshot, dealerMayStop } = replayGame(next);
 
-      const riichiCount = riichiIndices.length;
-      const riichiIncome = riichiCount * 1000;
-      const kyotakuPoints = prev.present.kyotaku * 1000;
-      const riichiPlayers = riichiIndices.map(
-        (i) => prev.present.names[i] ?? PLAYER_LABELS[i]
-      );
-
-      const winnerIsDealer = winner === prev.present.dealerIndex;
-      let totalBaseFromOthers = 0;
-      let totalHonbaFromOthers = 0;
-
-      if (winnerIsDealer) {
-        // 庄家自摸：其余三家各支付2倍基本点 + 本场
-        prev.present.points.forEach((_, idx) => {
-          if (idx === winner) return;
-          const rawBase = 2 * basePoints;
-          const basePay = roundUpToHundred(rawBase);
-          const honbaPay = prev.present.honba * 100;
-          const payment = basePay + honbaPay;
-          deltas[idx] -= payment;
-          totalBaseFromOthers += basePay;
-          totalHonbaFromOthers += honbaPay;
-        });
-      } else {
-        // 闲家自摸：庄家支付2倍基本点，另两闲家各支付1倍基本点
-        prev.present.points.forEach((_, idx) => {
-          if (idx === winner) return;
-          const isDealer = idx === prev.present.dealerIndex;
-          const rawBase = basePoints * (isDealer ? 2 : 1);
-          const basePay = roundUpToHundred(rawBase);
-          const honbaPay = prev.present.honba * 100;
-          const payment = basePay + honbaPay;
-          deltas[idx] -= payment;
-          totalBaseFromOthers += basePay;
-          totalHonbaFromOthers += honbaPay;
-        });
+      if (snapshot.finished && !finished) {
+        setShouldSettle(true);
       }
-
-      deltas[winner] += totalBaseFromOthers + totalHonbaFromOthers;
-      deltas[winner] += kyotakuPoints + riichiIncome;
-
-      const newPoints = applyDeltas(prev.present.points, deltas);
-
-      const winnerGain = deltas[winner];
-
-      let description = "";
-      if (winnerIsDealer) {
-        const perBaseRaw = 2 * basePoints;
-        const perBasePay = roundUpToHundred(perBaseRaw);
-        const perHonba = prev.present.honba * 100;
-        description = `庄家 ${winnerName} 自摸 ${han} 番 ${fu} 符，闲家各支付 ${formatPoints(
-          perBasePay + perHonba
-        )} 点${
-          perHonba > 0 ? `（其中 ${formatPoints(perHonba)} 点为本场棒）` : ""
-        }${
-          kyotakuPoints > 0
-            ? `，历史立直供托收入 ${formatPoints(kyotakuPoints)} 点`
-            : ""
-        }${
-          riichiIncome > 0
-            ? `，本局立直供托收入 ${formatPoints(riichiIncome)} 点`
-            : ""
-        }，共收入 ${formatPoints(winnerGain)} 点。`;
-      } else {
-        const dealerBaseRaw = 2 * basePoints;
-        const dealerBasePay = roundUpToHundred(dealerBaseRaw);
-        const dealerHonba = prev.present.honba * 100;
-        const othersBaseRaw = basePoints;
-        const othersBasePay = roundUpToHundred(othersBaseRaw);
-        const othersHonba = prev.present.honba * 100;
-        description = `闲家 ${winnerName} 自摸 ${han} 番 ${fu} 符，庄家 ${dealerName} 支付 ${formatPoints(
-          dealerBasePay + dealerHonba
-        )} 点${
-          dealerHonba > 0
-            ? `（其中 ${formatPoints(dealerHonba)} 点为本场棒）`
-            : ""
-        }，其余闲家支付 ${formatPoints(othersBasePay + othersHonba)} 点${
-          othersHonba > 0
-            ? `（其中 ${formatPoints(othersHonba)} 点为本场棒）`
-            : ""
-        }${
-          kyotakuPoints > 0
-            ? `，历史立直供托收入 ${formatPoints(kyotakuPoints)} 点`
-            : ""
-        }${
-          riichiIncome > 0
-            ? `，本局立直供托收入 ${formatPoints(riichiIncome)} 点`
-            : ""
-        }，共收入 ${formatPoints(winnerGain)} 点。`;
+      if (dealerMayStop) {
+        setDealerStopOpen(true);
       }
 
-      const entry = buildHistoryEntry(
-        "tsumo",
-        description,
-        riichiCount,
-        riichiPlayers,
-        deltas
-      );
+      return next;
+    });
+  }
 
-      // 连庄/轮庄 + 本场
-      const winnerIsDealerNow = winner === prev.present.dealerIndex;
-      let nextDealer = prev.present.dealerIndex;
-      let nextHonba = prev.present.honba;
-      let nextKyoku = prev.present.kyokuIndex;
-
-      if (winnerIsDealerNow) {
-        nextHonba = prev.present.honba + 1;
-      } else {
-        nextDealer = ensureSeatIndex(prev.present.dealerIndex + 1);
-        nextHonba = 0;
-        if (prev.present.kyokuIndex === 7) {
-          nextKyoku = 8;
-          setShouldSettle(true);
-        } else {
-          nextKyoku = prev.present.kyokuIndex + 1;
-        }
-      }
-
-      const newPresent: CoreSnapshot = {
-        points: newPoints,
-        kyotaku: 0,
-        honba: nextHonba,
-        kyokuIndex: nextKyoku,
-        dealerIndex: nextDealer,
-        history: [entry, ...prev.present.history],
-        names: prev.present.names,
-      };
-
-      return {
-        past: [...prev.past, prev.present],
-        present: newPresent,
-        future: [],
-      };
-    });
-
-    return true;
+  /**
+   * All Last 庄家选择和了止 / 听牌止：将最近一次结算标记为终局
+   */
+  function handleDealerStop() {
+    setState((prev) => appendEvent(prev, { type: "dealer-stop" }));
+    setDealerStopOpen(false);
+    setShouldSettle(true);
   }
 
-  function handleDistributeKyotaku() {
-    setState((prev) => {
-      if (prev.present.kyotaku === 0) return prev;
-
-      const kyotakuPoints = prev.present.kyotaku * 1000;
-      const ranks = computePlayerRanks(prev.present.points);
-      const winnerIndex = ranks.findIndex((r) => r === 1);
-      if (winnerIndex === -1) return prev;
-
-      const deltas = [0, 0, 0, 0];
-      deltas[winnerIndex] = kyotakuPoints;
-
-      const newPoints = applyDeltas(prev.present.points, deltas);
-      const winnerName =
-        prev.present.names[winnerIndex] ?? PLAYER_LABELS[winnerIndex];
-
-      const description = `一位 ${winnerName} 终局立直供托分配：${winnerName} 收入 ${formatPoints(
-        kyotakuPoints
-      )} 点。`;
-      const entry = buildHistoryEntry("draw", description, 0, [], deltas);
-
-      const newPresent: CoreSnapshot = {
-        ...prev.present,
-        points: newPoints,
-        kyotaku: 0,
-        history: [entry, ...prev.present.history],
-      };
+  function applyTsumoCandidate(
+    candidate: HandCandidate,
+    yaku: YakuRecord[] = []
+  ) {
+    setTsumoHan(String(candidate.han));
+    setTsumoFu(String(candidate.fu));
+    setTsumoYakuman(candidate.yakuman ?? 0);
+    setTsumoYaku(yaku);
+  }
 
-      return {
-        past: [...prev.past, prev.present],
-        present: newPresent,
-        future: [],
-      };
-    });
+  function applyRonCandidate(
+    candidate: HandCandidate,
+    yaku: YakuRecord[] = []
+  ) {
+    setRonHan(String(candidate.han));
+    setRonFu(String(candidate.fu));
+    setRonYakuman(candidate.yakuman ?? 0);
+    setRonYaku(yaku);
   }
 
-  function handleRonConfirm(): boolean {
-    if (ronWinner === null || ronLoser === null) return false;
-    if (ronWinner === ronLoser) {
-      window.alert("荣和者与放铳者不能是同一人");
-      return false;
-    }
-    const han = parseInt(ronHan || "0", 10);
-    const fu = parseInt(ronFu || "0", 10);
-    if (!Number.isFinite(han) || han <= 0 || !Number.isFinite(fu) || fu <= 0) {
-      window.alert("请填写合法的番数和符数");
-      return false;
+  /**
+   * 将手牌分析或役种选择的结果填入对话框，并记录役种
+   */
+  function applyHandAnalysis(
+    type: "tsumo" | "ron",
+    analysis: HandAnalysis | YakuTotal
+  ) {
+    const candidate: HandCandidate =
+      analysis.yakuman > 0
+        ? {
+            han: 0,
+            fu: 0,
+            yakuman: resolveYakumanMultiple(analysis.yakuman, state.rules),
+            label: "",
+          }
+        : {
+            han: analysis.han,
+            // 役种选择无法确定符数时保留已填写的符数
+            fu: analysis.fu ?? Number(type === "tsumo" ? tsumoFu : ronFu),
+            label: "",
+          };
+    if (type === "tsumo") {
+      applyTsumoCandidate(candidate, analysis.yaku);
+    } else {
+      applyRonCandidate(candidate, analysis.yaku);
     }
+  }
 
-    setState((prev) => {
-      const winner = ronWinner as SeatIndex;
-      const loser = ronLoser as SeatIndex;
-      const basePoints = calcBasePoints(han, fu);
-      const deltas = [0, 0, 0, 0];
-      const riichiIndices: SeatIndex[] = [];
-
-      ronRiichi.forEach((v, idx) => {
-        if (v) {
-          const i = idx as SeatIndex;
-          deltas[i] -= 1000;
-          riichiIndices.push(i);
-        }
-      });
+  function handleYakuToggle(id: string) {
+    setYakuSelected((prev) =>
+      prev.includes(id) ? prev.filter((y) => y !== id) : [...prev, id]
+    );
+  }
 
-      const riichiCount = riichiIndices.length;
-      const riichiIncome = riichiCount * 1000;
-      const kyotakuPoints = prev.present.kyotaku * 1000;
-      const riichiPlayers = riichiIndices.map(
-        (i) => prev.present.names[i] ?? PLAYER_LABELS[i]
-      );
+  function handleTilePick(tile: string) {
+    setHandFields((prev) => ({
+      ...prev,
+      [handPickerTarget]:
+        handPickerTarget === "winningTile"
+          ? tile
+          : appendTile(prev[handPickerTarget], tile),
+    }));
+  }
 
-      const winnerIsDealer = winner === prev.present.dealerIndex;
-      const multiplier = winnerIsDealer ? 6 : 4;
-      const rawBase = multiplier * basePoints;
-      const basePay = roundUpToHundred(rawBase);
-      const honbaPay = prev.present.honba * 300;
-      const payment = basePay + honbaPay;
-
-      deltas[loser] -= payment;
-      deltas[winner] += payment + kyotakuPoints + riichiIncome;
-
-      const newPoints = applyDeltas(prev.present.points, deltas);
-      const winnerGain = deltas[winner];
-
-      const winnerName = prev.present.names[winner] ?? PLAYER_LABELS[winner];
-      const loserName = prev.present.names[loser] ?? PLAYER_LABELS[loser];
-      let description = "";
-      if (winnerIsDealer) {
-        description = `庄家 ${winnerName} 荣和 ${loserName} ${han} 番 ${fu} 符，共 ${formatPoints(
-          payment
-        )} 点${
-          honbaPay > 0 ? `（其中 ${formatPoints(honbaPay)} 点为本场棒）` : ""
-        }${
-          kyotakuPoints > 0
-            ? `，历史立直供托收入 ${formatPoints(kyotakuPoints)} 点`
-            : ""
-        }${
-          riichiIncome > 0
-            ? `，本局立直供托收入 ${formatPoints(riichiIncome)} 点`
-            : ""
-        }，共收入 ${formatPoints(winnerGain)} 点。`;
-      } else {
-        description = `闲家 ${winnerName} 荣和 ${loserName} ${han} 番 ${fu} 符，共 ${formatPoints(
-          payment
-        )} 点${
-          honbaPay > 0 ? `（其中 ${formatPoints(honbaPay)} 点为本场棒）` : ""
-        }${
-          kyotakuPoints > 0
-            ? `，历史立直供托收入 ${formatPoints(kyotakuPoints)} 点`
-            : ""
-        }${
-          riichiIncome > 0
-            ? `，本局立直供托收入 ${formatPoints(riichiIncome)} 点`
-            : ""
-        }，共收入 ${formatPoints(winnerGain)} 点。`;
-      }
+  function handleTileRemove() {
+    setHandFields((prev) => ({
+      ...prev,
+      [handPickerTarget]: removeLastTile(prev[handPickerTarget]),
+    }));
+  }
 
-      const entry = buildHistoryEntry(
-        "ron",
-        description,
-        riichiCount,
-        riichiPlayers,
-        deltas
-      );
+  // 报点只对应唯一的和牌时直接填入番符，否则由用户在候选中选择
+  function handleTsumoAmountChange(value: string) {
+    setTsumoAmount(value);
+    const { candidates } = lookupPayout(
+      value,
+      "tsumo",
+      tsumoWinner === present.dealerIndex,
+      present.honba,
+      state.rules
+    );
+    if (candidates.length === 1) applyTsumoCandidate(candidates[0]);
+  }
 
-      const winnerIsDealerNow = winner === prev.present.dealerIndex;
-      let nextDealer = prev.present.dealerIndex;
-      let nextHonba = prev.present.honba;
-      let nextKyoku = prev.present.kyokuIndex;
-
-      if (winnerIsDealerNow) {
-        nextHonba = prev.present.honba + 1;
-      } else {
-        nextDealer = ensureSeatIndex(prev.present.dealerIndex + 1);
-        nextHonba = 0;
-        if (prev.present.kyokuIndex === 7) {
-          nextKyoku = 8;
-          setShouldSettle(true);
-        } else {
-          nextKyoku = prev.present.kyokuIndex + 1;
-        }
-      }
+  function handleRonAmountChange(value: string) {
+    setRonAmount(value);
+    const { candidates } = lookupPayout(
+      value,
+      "ron",
+      ronWinner === present.dealerIndex,
+      present.honba,
+      state.rules
+    );
+    if (candidates.length === 1) applyRonCandidate(candidates[0]);
+  }
 
-      const newPresent: CoreSnapshot = {
-        points: newPoints,
-        kyotaku: 0,
-        honba: nextHonba,
-        kyokuIndex: nextKyoku,
-        dealerIndex: nextDealer,
-        history: [entry, ...prev.present.history],
-        names: prev.present.names,
-      };
+  function handleTsumoConfirm(): boolean {
+    if (!tsumoInput || tsumoWinner === null) return false;
+    commitSettlement(tsumoInput, [{ winner: tsumoWinner, yaku: tsumoYaku }]);
+    return true;
+  }
 
-      return {
-        past: [...prev.past, prev.present],
-        present: newPresent,
-        future: [],
-      };
+  /**
+   * 分配剩余立直供托；对局未结束时只能在结算面板中手动分配，同时终止对局
+   */
+  function handleDistributeKyotaku(endGame = false) {
+    setState((prev) => {
+      const current = getPresent(prev);
+      if (current.kyotaku === 0) return prev;
+      if (current.finished) return appendEvent(prev, { type: "kyotaku" });
+      if (!endGame) return prev;
+      return appendEvent(prev, { type: "kyotaku", endGame: true });
     });
+  }
 
+  function handleRonConfirm(): boolean {
+    if (!ronInput || ronWinner === null) return false;
+    commitSettlement(ronInput, [{ winner: ronWinner, yaku: ronYaku }]);
     return true;
   }
 
   function handleDrawConfirm(): boolean {
-    const anyTenpai = drawTenpai.some(Boolean);
-    const tenpaiCount = drawTenpai.filter(Boolean).length;
-
-    setState((prev) => {
-      const deltas = [0, 0, 0, 0];
-      const riichiIndices: SeatIndex[] = [];
-
-      drawRiichi.forEach((v, idx) => {
-        if (v) {
-          const i = idx as SeatIndex;
-          deltas[i] -= 1000;
-          riichiIndices.push(i);
-        }
-      });
-
-      const riichiCount = riichiIndices.length;
-      const riichiIncome = riichiCount * 1000;
-      const riichiPlayers = riichiIndices.map(
-        (i) => prev.present.names[i] ?? PLAYER_LABELS[i]
-      );
-
-      if (tenpaiCount === 1) {
-        const tenpaiIndex = drawTenpai.findIndex(Boolean) as SeatIndex;
-        prev.present.points.forEach((_, idx) => {
-          if (idx === tenpaiIndex) return;
-          deltas[idx] -= 1000;
-          deltas[tenpaiIndex] += 1000;
-        });
-      } else if (tenpaiCount === 2) {
-        const tenpaiIndices = drawTenpai
-          .map((v, idx) => (v ? (idx as SeatIndex) : null))
-          .filter((v): v is SeatIndex => v !== null);
-        const notTenpaiIndices = drawTenpai
-          .map((v, idx) => (!v ? (idx as SeatIndex) : null))
-          .filter((v): v is SeatIndex => v !== null);
-        notTenpaiIndices.forEach((i) => {
-          deltas[i] -= 1500;
-        });
-        tenpaiIndices.forEach((i) => {
-          deltas[i] += 1500;
-        });
-      } else if (tenpaiCount === 3) {
-        const notIndex = drawTenpai.findIndex((v) => !v) as SeatIndex;
-        prev.present.points.forEach((_, idx) => {
-          if (idx === notIndex) return;
-          deltas[notIndex] -= 1000;
-          deltas[idx] += 1000;
-        });
-      }
-
-      const newPoints = applyDeltas(prev.present.points, deltas);
-      const newKyotaku = prev.present.kyotaku + riichiCount;
-
-      const tenpaiNames =
-        prev.present.names.filter((_, idx) => drawTenpai[idx]).join("、") ||
-        "无";
-      const notenNames =
-        prev.present.names.filter((_, idx) => !drawTenpai[idx]).join("、") ||
-        "无";
-
-      const description = `流局，本局立直供托计入场供 ${formatPoints(
-        riichiIncome
-      )} 点，听牌：${tenpaiNames}，未听牌：${notenNames}。`;
-
-      const entry = buildHistoryEntry(
-        "draw",
-        description,
-        riichiCount,
-        riichiPlayers,
-        deltas
-      );
+    commitSettlement(drawInput);
+    return true;
+  }
 
-      const dealerTenpai = drawTenpai[prev.present.dealerIndex];
+  function handleChomboConfirm(): boolean {
+    commitSettlement(chomboInput);
+    return true;
+  }
 
-      let nextDealer = prev.present.dealerIndex;
-      const nextHonba = prev.present.honba + 1;
-      let nextKyoku = prev.present.kyokuIndex;
+  function openHistoryEditor(entry: HistoryEntry) {
+    const draft = entry.input
+      ? createHistoryDraft(entry.input, present.points.length)
+      : null;
+    setHistoryEditId(entry.id);
+    setHistoryDraft(draft);
+    setHistoryDelete(draft === null);
+  }
 
-      if (!dealerTenpai) {
-        nextDealer = ensureSeatIndex(prev.present.dealerIndex + 1);
-        if (prev.present.kyokuIndex === 7) {
-          nextKyoku = 8;
-          setShouldSettle(true);
-        } else {
-          nextKyoku = prev.present.kyokuIndex + 1;
-        }
-      }
+  function updateHistoryDraft(patch: Partial<HistoryDraft>) {
+    setHistoryDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  }
 
-      const newPresent: CoreSnapshot = {
-        points: newPoints,
-        kyotaku: newKyotaku,
-        honba: nextHonba,
-        kyokuIndex: nextKyoku,
-        dealerIndex: nextDealer,
-        history: [entry, ...prev.present.history],
-        names: prev.present.names,
-      };
+  function handleHistoryEditConfirm(): boolean {
+    if (!historyRewrite || "error" in historyRewrite) return false;
+    if (historyRewrite.present.finished && !present.finished) {
+      setShouldSettle(true);
+    }
+    const { event } = historyRewrite;
+    setState((prev) => appendEvent(prev, event));
+    return true;
+  }
 
-      return {
-        past: [...prev.past, prev.present],
-        present: newPresent,
-        future: [],
-      };
-    });
+  function handleAdjustConfirm(): boolean {
+    if (adjustError) return false;
+    commitSettlement({ type: "adjustment", ...adjustParsed });
+    return true;
+  }
 
-    if (!anyTenpai && !drawRiichi.some(Boolean)) {
-      // 完全空白流局也可以，只是不做额外提示
+  // 自摸与荣和对话框中的役种选择面板
+  function renderYakuPicker(type: "tsumo" | "ron") {
+    const total = type === "tsumo" ? tsumoYakuTotal : ronYakuTotal;
+    const countFields = [
+      { label: "宝牌", value: yakuDora, onChange: setYakuDora },
+      { label: "赤宝牌", value: yakuAka, onChange: setYakuAka },
+      { label: "里宝牌", value: yakuUra, onChange: setYakuUra },
+      // 三麻另计拔北宝牌
+      ...(present.points.length === 3
+        ? [{ label: "拔北", value: yakuNuki, onChange: setYakuNuki }]
+        : []),
+    ];
+    if (!yakuPickerOpen) {
+      return (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 w-full px-2 text-[11px]"
+          onClick={() => setYakuPickerOpen(true)}
+        >
+          按役种计算番数
+        </Button>
+      );
     }
+    return (
+      <div className="space-y-2 rounded-lg border border-slate-200 bg-slate-50/60 px-3 py-2">
+        <div className="flex items-center justify-between">
+          <span className="text-[11px] font-medium text-slate-600">
+            役种选择
+            {type === "ron" && ronExtraWinners.length > 0 && "（荣和者 1）"}
+          </span>
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-[11px]"
+              onClick={() => {
+                setYakuSelected([]);
+                setYakuDora("0");
+                setYakuAka("0");
+                setYakuUra("0");
+                setYakuNuki("0");
+              }}
+            >
+              清空
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-[11px]"
+              onClick={() => setYakuPickerOpen(false)}
+            >
+              收起
+            </Button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Popover open={yakuListOpen} onOpenChange={setYakuListOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 flex-1 justify-between px-2 text-[11px]"
+              >
+                {yakuSelected.length > 0
+                  ? `已选 ${yakuSelected.length} 个役`
+                  : "选择役种"}
+                <ChevronsUpDown className="h-3.5 w-3.5 shrink-0 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-[260px] p-0" align="start">
+              <Command>
+                <CommandInput className="h-8 text-xs" placeholder="搜索役种" />
+                <CommandList>
+                  <CommandEmpty className="py-4 text-center text-xs">
+                    没有匹配的役种
+                  </CommandEmpty>
+                  {YAKU_GROUPS.map((group) => (
+                    <CommandGroup key={group.label} heading={group.label}>
+                      {group.yaku.map((yaku) => {
+                        const selected = yakuSelected.includes(yaku.id);
+                        const conflict = getYakuConflict(
+                          yaku.id,
+                          yakuSelected,
+                          yakuMenzen,
+                          type,
+                          state.rules
+                        );
+                        const han = getYakuHan(yaku, yakuMenzen, state.rules);
+                        return (
+                          <CommandItem
+                            key={yaku.id}
+                            value={yaku.name}
+                            keywords={[yaku.id]}
+                            disabled={!selected && !!conflict}
+                            className="text-xs"
+                            onSelect={() => handleYakuToggle(yaku.id)}
+                          >
+                            <Check
+                              className={`h-3.5 w-3.5 ${
+                                selected ? "opacity-100" : "opacity-0"
+                              }`}
+                            />
+                            <span className="flex-1">{yaku.name}</span>
+                            <span
+                              className={`text-[11px] ${
+                                conflict ? "text-rose-500" : "text-slate-500"
+                              }`}
+                            >
+                              {conflict ??
+                                (yaku.yakuman
+                                  ? "役满"
+                                  : han !== yaku.closedHan
+                                  ? `${han} 番（副露减一）`
+                                  : `${han} 番`)}
+                            </span>
+                          </CommandItem>
+                        );
+                      })}
+                    </CommandGroup>
+                  ))}
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+          <label className="flex items-center gap-1.5 text-[11px] text-slate-700">
+            <Checkbox
+              checked={!yakuMenzen}
+              onCheckedChange={(v) => setYakuMenzen(!v)}
+            />
+            副露
+          </label>
+        </div>
+        {yakuSelected.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {yakuSelected.map((id) => (
+              <Badge
+                key={id}
+                variant="secondary"
+                className="gap-1 px-1.5 text-[11px] font-normal"
+              >
+                {YAKU_LIST.find((yaku) => yaku.id === id)?.name}
+                <button type="button" onClick={() => handleYakuToggle(id)}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-3 gap-2">
+          {countFields.map(({ label, value, onChange }) => (
+            <div key={label}>
+              <Label className="text-[11px]">{label}</Label>
+              <Input
+                className="mt-1 h-7 text-xs"
+                type="number"
+                min={0}
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+        {"error" in total ? (
+          <div className="text-[11px] font-medium text-rose-600">
+            {total.error}
+          </div>
+        ) : (
+          <div className="flex items-center justify-between rounded-md bg-white/70 px-2 py-1.5 text-[11px]">
+            <span className="font-semibold text-slate-700">
+              {total.yakuman > 0
+                ? formatYakuman(total.yakuman)
+                : `合计 ${total.han} 番${
+                    total.fu ? ` ${total.fu} 符` : "（符数沿用已填写的值）"
+                  }`}
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              className="h-6 px-2 text-[11px]"
+              onClick={() => applyHandAnalysis(type, total)}
+            >
+              填入番数
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
 
-    return true;
+  // 自摸与荣和对话框中的手牌分析面板
+  function renderHandAnalyzer(type: "tsumo" | "ron") {
+    const analysis = type === "tsumo" ? tsumoHandAnalysis : ronHandAnalysis;
+    const limitLabel =
+      analysis && !("error" in analysis) && analysis.yakuman === 0
+        ? formatLimit(calcBasePoints(analysis.han, analysis.fu, state.rules))
+        : null;
+    const flags: { key: HandFlagField; label: string }[] = [
+      { key: "riichi", label: "立直" },
+      { key: "doubleRiichi", label: "两立直" },
+      { key: "ippatsu", label: "一发" },
+      type === "tsumo"
+        ? { key: "rinshan", label: "岭上开花" }
+        : { key: "chankan", label: "抢杠" },
+      { key: "haitei", label: type === "tsumo" ? "海底摸月" : "河底捞鱼" },
+    ];
+    if (!handAnalyzerOpen) {
+      return (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 w-full px-2 text-[11px]"
+          onClick={() => setHandAnalyzerOpen(true)}
+        >
+          按手牌计算番符
+        </Button>
+      );
+    }
+    return (
+      <div className="space-y-2 rounded-lg border border-slate-200 bg-slate-50/60 px-3 py-2">
+        <div className="flex items-center justify-between">
+          <span className="text-[11px] font-medium text-slate-600">
+            手牌分析
+            {type === "ron" && ronExtraWinners.length > 0 && "（荣和者 1）"}
+          </span>
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-[11px]"
+              onClick={() => setHandFields(createEmptyHandFields())}
+            >
+              清空
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-[11px]"
+              onClick={() => setHandAnalyzerOpen(false)}
+            >
+              收起
+            </Button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {HAND_TEXT_FIELDS.map(({ key, label, placeholder }) => (
+            <div
+              key={key}
+              className={key === "hand" || key === "melds" ? "col-span-2" : ""}
+            >
+              <Label className="text-[11px]">{label}</Label>
+              <Input
+                className={`mt-1 h-7 text-xs ${
+                  handPickerTarget === key ? "border-slate-500" : ""
+                }`}
+                placeholder={placeholder}
+                value={handFields[key]}
+                onFocus={() => setHandPickerTarget(key)}
+                onChange={(e) =>
+                  setHandFields((prev) => ({ ...prev, [key]: e.target.value }))
+                }
+              />
+            </div>
+          ))}
+          {present.points.length === 3 && (
+            <div>
+              <Label className="text-[11px]">拔北张数</Label>
+              <Input
+                className="mt-1 h-7 text-xs"
+                type="number"
+                min={0}
+                max={4}
+                value={handFields.nukidora}
+                onChange={(e) =>
+                  setHandFields((prev) => ({
+                    ...prev,
+                    nukidora: Math.min(
+                      4,
+                      Math.max(0, Number(e.target.value) || 0)
+                    ),
+                  }))
+                }
+              />
+            </div>
+          )}
+        </div>
+        <div className="space-y-1">
+          <div className="text-[11px] text-slate-500">
+            点选牌填入「
+            {HAND_TEXT_FIELDS.find((f) => f.key === handPickerTarget)?.label}」
+          </div>
+          {TILE_PICKER_ROWS.map((row) => (
+            <div key={row[0]} className="flex flex-wrap gap-1">
+              {row.map((tile) => (
+                <Button
+                  key={tile}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className={`h-6 min-w-[2rem] px-1 text-[11px] ${
+                    tile.startsWith("0") ? "text-rose-600" : ""
+                  }`}
+                  onClick={() => handleTilePick(tile)}
+                >
+                  {formatTileLabel(tile)}
+                </Button>
+              ))}
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-[11px]"
+            onClick={handleTileRemove}
+          >
+            退格
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {flags.map(({ key, label }) => (
+            <label
+              key={key}
+              className="flex items-center gap-1.5 text-[11px] text-slate-700"
+            >
+              <Checkbox
+                checked={handFields[key]}
+                onCheckedChange={(v) =>
+                  setHandFields((prev) => ({ ...prev, [key]: Boolean(v) }))
+                }
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        {analysis &&
+          ("error" in analysis ? (
+            <div className="text-[11px] font-medium text-rose-600">
+              {analysis.error}
+            </div>
+          ) : (
+            <div className="space-y-1 rounded-md bg-white/70 px-2 py-1.5 text-[11px] text-slate-600">
+              <div className="flex flex-wrap gap-1">
+                {analysis.yaku.map((yaku) => (
+                  <Badge
+                    key={yaku.name}
+                    variant="secondary"
+                    className="px-1.5 text-[11px] font-normal"
+                  >
+                    {yaku.name} {yaku.han >= 13 ? "役满" : `${yaku.han} 番`}
+                  </Badge>
+                ))}
+              </div>
+              {analysis.yakuman === 0 && analysis.fuItems.length > 0 && (
+                <div className="text-slate-500">
+                  {analysis.fuItems
+                    .map((item) => `${item.label} ${item.fu}`)
+                    .join(" + ")}{" "}
+                  → {analysis.fu} 符
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-slate-700">
+                  {analysis.yakuman > 0
+                    ? formatYakuman(analysis.yakuman)
+                    : `${analysis.han} 番 ${analysis.fu} 符${
+                        limitLabel ? ` ${limitLabel}` : ""
+                      }`}
+                </span>
+                <Button
+                  type="button"
+                  size="sm"
+                  className="h-6 px-2 text-[11px]"
+                  onClick={() => applyHandAnalysis(type, analysis)}
+                >
+                  填入番符
+                </Button>
+              </div>
+            </div>
+          ))}
+      </div>
+    );
   }
 
   // 打开编辑场况时同步当前状态
   useEffect(() => {
     if (!editRoundOpen) return;
-    const info = getRoundInfo(state.present.kyokuIndex, state.present.honba);
+    const info = getRoundInfo(present, state.rules);
     setEditWind(info.wind);
     setEditNumber(info.number);
-    setEditHonba(state.present.honba);
-    setEditDealer(state.present.dealerIndex);
-  }, [
-    editRoundOpen,
-    state.present.kyokuIndex,
-    state.present.honba,
-    state.present.dealerIndex,
-  ]);
+    setEditHonba(present.honba);
+    setEditDealer(present.dealerIndex);
+  }, [editRoundOpen, present, state.rules]);
+
+  // 打开和了、流局对话框时按本局的立直宣告勾选立直者
+  useEffect(() => {
+    if (!tsumoOpen) return;
+    setTsumoRiichi(getDeclaredRiichi(present));
+  }, [tsumoOpen, present]);
+
+  useEffect(() => {
+    if (!ronOpen) return;
+    setRonRiichi(getDeclaredRiichi(present));
+    setRonRiichiVoided(false);
+  }, [ronOpen, present]);
+
+  useEffect(() => {
+    if (!drawOpen) return;
+    setDrawRiichi(getDeclaredRiichi(present));
+  }, [drawOpen, present]);
+
+  // 打开手动调整时清空上次的输入
+  useEffect(() => {
+    if (!adjustOpen) return;
+    setAdjustDeltas([]);
+    setAdjustReason("");
+    setAdjustNonZeroSum(false);
+  }, [adjustOpen]);
+
+  // 打开规则设置时同步当前规则
+  useEffect(() => {
+    if (!editRulesOpen) return;
+    setEditRules(state.rules);
+  }, [editRulesOpen, state.rules]);
 
   // 打开编辑昵称时同步当前名称
   useEffect(() => {
     if (!editNamesOpen) return;
-    setEditNames(state.present.names);
-  }, [editNamesOpen, state.present.names]);
+    setEditNames(present.names);
+  }, [editNamesOpen, present.names]);
 
   return (
     <TooltipProvider>
@@ -1240,23 +1917,31 @@ function App() {
                     variant="outline"
                     className="ml-2 border-amber-200 bg-amber-50 text-[11px] text-amber-800 truncate max-w-32 block"
                   >
-                    庄家：{state.present.names[state.present.dealerIndex]}
+                    庄家：{present.names[present.dealerIndex]}
                   </Badge>
                 </div>
                 <div className="flex items-center gap-2 rounded-xl bg-white/80 px-3 py-2 shadow-sm shadow-slate-100">
                   <span className="text-xs text-slate-500">场供</span>
                   <span className="font-semibold tabular-nums">
                     {formatPoints(
-                      state.present.kyotaku * 1000 + state.present.honba * 300
+                      getKyotakuPoints(present, state.rules) +
+                        present.honba * state.rules.honbaValue
                     )}
                   </span>
                   <span className="text-xs text-slate-500">点</span>
                   <span className="rounded-full bg-slate-50 px-2 py-0.5 text-[11px] text-slate-500">
-                    {state.present.kyotaku} 棒
+                    {present.kyotaku} 棒
                   </span>
                   <span className="rounded-full bg-slate-50 px-2 py-0.5 text-[11px] text-slate-500">
-                    {state.present.honba} 本场
+                    {present.honba} 本场
                   </span>
+                  {(present.renchan ?? 0) > 0 && (
+                    <span className="rounded-full bg-amber-50 px-2 py-0.5 text-[11px] text-amber-700">
+                      连庄 {present.renchan}
+                      {state.rules.renchanLimit > 0 &&
+                        ` / ${state.rules.renchanLimit}`}
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
@@ -1287,14 +1972,14 @@ function App() {
                   <div className="font-semibold tabular-nums tracking-tight">
                     <span
                       className={`${
-                        totalPoints === 100000
+                        totalPoints === expectedTotalPoints
                           ? "text-emerald-600"
                           : "text-rose-600"
                       }`}
                     >
                       {formatPoints(totalPoints)}
                     </span>{" "}
-                    / 100,000
+                    / {formatPoints(expectedTotalPoints)}
                   </div>
                 </div>
               </div>
@@ -1313,12 +1998,23 @@ function App() {
                 <span className="text-xs text-slate-400">单位：点</span>
               </CardHeader> */}
               <CardContent className="p-4 w-full h-full flex justify-center items-center">
-                <div className="grid grid-cols-1 gap-3 md:grid-cols-2 flex-1">
-                  {state.present.points.map((score, idx) => {
-                    const isDealer = idx === state.present.dealerIndex;
+                <div
+                  className={`grid grid-cols-1 gap-3 flex-1 ${
+                    present.points.length === 3
+                      ? "md:grid-cols-3"
+                      : "md:grid-cols-2"
+                  }`}
+                >
+                  {present.points.map((score, idx) => {
+                    const isDealer = idx === present.dealerIndex;
                     const rank = playerRanks[idx] ?? 0;
                     const isBest = rank === bestRank;
                     const isWorst = rank === worstRank;
+                    const riichiDeclared =
+                      present.riichiDeclared?.[idx] === true;
+                    const riichiError = present.finished
+                      ? "对局已结束"
+                      : getRiichiError(present, idx as SeatIndex, state.rules);
                     const rankBadgeClass =
                       rank === 0
                         ? "border-slate-200 bg-slate-50 text-slate-500"
@@ -1343,7 +2039,7 @@ function App() {
                         <div className="flex items-start justify-between gap-2">
                           <div className="min-w-0">
                             <div className="text-xs text-slate-500 truncate">
-                              {state.present.names[idx]}
+                              {present.names[idx]}
                             </div>
                             <div className="mt-1 text-xl font-semibold tabular-nums tracking-tight">
                               {formatPoints(score)}
@@ -1362,8 +2058,36 @@ function App() {
                             >
                               {rank ? `第 ${rank} 名` : "排名计算中"}
                             </Badge>
+                            {riichiDeclared && (
+                              <Badge className="rounded-full bg-sky-500 px-2 py-0.5 text-[11px] font-semibold text-white shadow-sm">
+                                立直
+                              </Badge>
+                            )}
                           </div>
                         </div>
+                        {!riichiDeclared && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <span className="mt-2 inline-block">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-7 px-2 text-[11px]"
+                                  disabled={riichiError !== null}
+                                  onClick={() =>
+                                    handleDeclareRiichi(idx as SeatIndex)
+                                  }
+                                >
+                                  立直
+                                </Button>
+                              </span>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              {riichiError ??
+                                `支付 ${state.rules.riichiStickValue} 点立直棒并计入场供`}
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
                       </div>
                     );
                   })}
@@ -1477,7 +2201,7 @@ function App() {
                 </span>
               </CardHeader> */}
               <CardContent className="p-4 pt-0 w-full h-full flex justify-start items-start">
-                {state.present.history.length === 0 ? (
+                {present.history.length === 0 ? (
                   <div className="mt-4 p-4 w-full h-[calc(100%-1rem)] flex items-center justify-center rounded-2xl border border-dashed border-slate-200 bg-slate-50/60 text-xs text-slate-500">
                     暂无记录，请通过操作栏录入对局结算。
                   </div>
@@ -1501,15 +2225,18 @@ function App() {
                           <TableHead className="history-table-head text-xs text-slate-500">
                             结算信息
                           </TableHead>
+                          <TableHead className="history-table-head w-14 text-xs text-slate-500">
+                            操作
+                          </TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {state.present.history.map((h) => {
+                        {present.history.map((h) => {
                           const namesSnapshot =
                             Array.isArray(h.playerNames) &&
-                            h.playerNames.length === 4
+                            h.playerNames.length === present.points.length
                               ? h.playerNames
-                              : state.present.names;
+                              : present.names;
                           const riichiPlayers = Array.isArray(h.riichiPlayers)
                             ? h.riichiPlayers
                             : undefined;
@@ -1525,7 +2252,9 @@ function App() {
                           const deltas = Array.isArray(h.deltas)
                             ? h.deltas
                             : undefined;
-                          const hasDeltas = !!(deltas && deltas.length === 4);
+                          const hasDeltas = !!(
+                            deltas && deltas.length === present.points.length
+                          );
                           return (
                             <TableRow key={h.id}>
                               <TableCell className="align-top text-xs text-slate-700">
@@ -1578,6 +2307,32 @@ function App() {
                               </TableCell>
                               <TableCell className="align-top text-xs leading-relaxed text-slate-700">
                                 {h.description}
+                                {Array.isArray(h.liablePlayers) &&
+                                  h.liablePlayers.length > 0 && (
+                                    <div className="mt-0.5 text-[11px] text-amber-700">
+                                      包牌：{h.liablePlayers.join("、")}
+                                    </div>
+                                  )}
+                                {Array.isArray(h.winnerYaku) &&
+                                  h.winnerYaku.map((w) => (
+                                    <div
+                                      key={w.player}
+                                      className="mt-0.5 text-[11px] text-slate-500"
+                                    >
+                                      {w.player}：
+                                      {w.yaku.map(formatYakuRecord).join("、")}
+                                    </div>
+                                  ))}
+                              </TableCell>
+                              <TableCell className="align-top text-xs">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 px-2 text-[11px]"
+                                  onClick={() => openHistoryEditor(h)}
+                                >
+                                  修改
+                                </Button>
                               </TableCell>
                             </TableRow>
                           );
@@ -1586,124 +2341,657 @@ function App() {
                     </Table>
                   </div>
                 )}
-              </CardContent>
-            </Card>
-
-            <Card className="border-none bg-white/80 shadow-md shadow-slate-200/70 h-full overflow-y-auto">
-              <CardHeader className="space-y-2 pb-4 sticky top-0 bg-white z-10">
-                <CardTitle className="flex items-center justify-between text-sm font-semibold text-slate-700">
-                  <span>操作栏</span>
-                  <span className="flex items-center gap-1 text-[11px] text-slate-400">
-                    <Wand2 className="h-3 w-3" />
-                    调整比赛进程或录入结算
-                  </span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4 pt-0 text-xs">
-                <div className="space-y-2">
-                  <div className="text-[11px] font-semibold tracking-wide text-slate-500">
-                    结算信息
-                  </div>
-                  <div className="flex flex-wrap gap-2">
-                    {/* 流局 */}
-                    <Dialog open={drawOpen} onOpenChange={setDrawOpen}>
-                      <DialogTrigger asChild>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="h-8 px-3 text-xs"
-                          disabled={isGameFinished}
-                        >
-                          流局
-                        </Button>
-                      </DialogTrigger>
-                      <DialogContent className="max-w-md">
-                        <DialogHeader>
-                          <DialogTitle>流局结算</DialogTitle>
-                          <DialogDescription className="truncate max-w-60">
-                            {roundInfo.label}， 庄家：
-                            {state.present.names[state.present.dealerIndex]}
-                          </DialogDescription>
-                        </DialogHeader>
-                        <div className="mt-2 space-y-4 text-xs">
-                          <div>
-                            <div className="mb-1 text-[11px] font-medium text-slate-600">
-                              听牌情况
-                            </div>
-                            <div className="grid grid-cols-2 gap-2">
-                              {state.present.names.map((name, idx) => (
-                                <label
-                                  key={idx}
-                                  className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
-                                >
-                                  <Checkbox
-                                    checked={drawTenpai[idx]}
-                                    onCheckedChange={(v) => {
-                                      const next = [...drawTenpai];
-                                      next[idx] = Boolean(v);
-                                      setDrawTenpai(next);
-                                    }}
-                                  />
-                                  <span className="truncate">{name}</span>
-                                </label>
-                              ))}
-                            </div>
-                          </div>
+                <Dialog
+                  open={historyEditEntry !== null}
+                  onOpenChange={(open) => {
+                    if (!open) setHistoryEditId(null);
+                  }}
+                >
+                  <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>修改历史记录</DialogTitle>
+                      <DialogDescription>
+                        {historyEditEntry?.roundLabel}
+                        ，修改或删除后，之后的每一条记录将按各自录入时生效的规则依次重算。
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="mt-2 space-y-4 text-xs">
+                      <div className="rounded-lg bg-slate-50/80 px-3 py-2 text-[11px] leading-relaxed text-slate-600">
+                        {historyEditEntry?.description}
+                      </div>
+                      <label className="flex items-center gap-2 text-xs text-slate-700">
+                        <Checkbox
+                          checked={historyDelete}
+                          disabled={historyDraft === null}
+                          onCheckedChange={(v) => setHistoryDelete(Boolean(v))}
+                        />
+                        删除此记录
+                      </label>
+                      {historyDraft && !historyDelete && (
+                        <div className="space-y-3">
                           <div>
-                            <div className="mb-1 text-[11px] font-medium text-slate-600">
-                              立直情况
-                            </div>
-                            <div className="grid grid-cols-2 gap-2">
-                              {state.present.names.map((name, idx) => (
-                                <label
-                                  key={idx}
-                                  className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
-                                >
-                                  <Checkbox
-                                    checked={drawRiichi[idx]}
-                                    onCheckedChange={(v) => {
-                                      const next = [...drawRiichi];
-                                      next[idx] = Boolean(v);
-                                      setDrawRiichi(next);
-                                    }}
-                                  />
-                                  <span className="truncate">{name}</span>
-                                </label>
-                              ))}
-                            </div>
+                            <Label className="text-xs">结算类型</Label>
+                            <Select
+                              value={historyDraft.type}
+                              onValueChange={(v) =>
+                                updateHistoryDraft({
+                                  type: v as HistoryDraft["type"],
+                                })
+                              }
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {HISTORY_DRAFT_TYPES.map((type) => (
+                                  <SelectItem key={type} value={type}>
+                                    {formatSettlementType(type)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                           </div>
-                        </div>
-                        <div className="mb-[-0.6rem] text-[11px] font-medium text-slate-600">
-                          结算预览
-                        </div>
-                        <div className="rounded-lg bg-slate-50/80 px-3 py-2">
-                          <div className="grid grid-cols-2 gap-2">
-                            {state.present.names.map((name, idx) => {
-                              const delta = drawPreview.deltas[idx] ?? 0;
-                              const cls =
-                                delta > 0
-                                  ? "text-emerald-600"
-                                  : delta < 0
-                                  ? "text-rose-600"
-                                  : "text-slate-400";
-                              return (
-                                <div
-                                  key={idx}
-                                  className="flex items-center justify-between rounded-md bg-white/70 px-2 py-1"
+                          {(historyDraft.type === "tsumo" ||
+                            historyDraft.type === "ron") && (
+                            <div className="grid grid-cols-2 gap-3">
+                              <div>
+                                <Label className="text-xs">
+                                  {historyDraft.type === "tsumo"
+                                    ? "自摸者"
+                                    : historyDraft.extraWinners.length > 0
+                                    ? "荣和者 1"
+                                    : "荣和者"}
+                                </Label>
+                                <Select
+                                  value={String(historyDraft.winner)}
+                                  onValueChange={(v) =>
+                                    updateHistoryDraft({
+                                      winner: Number(v) as SeatIndex,
+                                    })
+                                  }
                                 >
-                                  <span className="truncate text-[11px] text-slate-600">
-                                    {name}
-                                  </span>
-                                  <span
-                                    className={`text-xs font-semibold tabular-nums ${cls}`}
+                                  <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {present.names.map((name, idx) => (
+                                      <SelectItem key={idx} value={String(idx)}>
+                                        {name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                              {historyDraft.type === "ron" && (
+                                <div>
+                                  <Label className="text-xs">放铳者</Label>
+                                  <Select
+                                    value={String(historyDraft.loser)}
+                                    onValueChange={(v) =>
+                                      updateHistoryDraft({
+                                        loser: Number(v) as SeatIndex,
+                                      })
+                                    }
                                   >
-                                    {delta === 0 ? "0" : formatDiff(delta)}
-                                  </span>
+                                    <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {present.names.map((name, idx) => (
+                                        <SelectItem
+                                          key={idx}
+                                          value={String(idx)}
+                                        >
+                                          {name}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
                                 </div>
-                              );
-                            })}
-                          </div>
-                          <div className="mt-3 text-[11px] text-slate-600">
+                              )}
+                              <div>
+                                <Label className="text-xs">番数</Label>
+                                <Input
+                                  className="mt-1 h-8 text-xs"
+                                  type="number"
+                                  min={1}
+                                  disabled={historyDraft.yakuman > 0}
+                                  value={historyDraft.han}
+                                  onChange={(e) =>
+                                    updateHistoryDraft({ han: e.target.value })
+                                  }
+                                />
+                              </div>
+                              <div>
+                                <Label className="text-xs">符数</Label>
+                                <Input
+                                  className="mt-1 h-8 text-xs"
+                                  type="number"
+                                  min={20}
+                                  step={10}
+                                  disabled={historyDraft.yakuman > 0}
+                                  value={historyDraft.fu}
+                                  onChange={(e) =>
+                                    updateHistoryDraft({ fu: e.target.value })
+                                  }
+                                />
+                              </div>
+                              <div>
+                                <Label className="text-xs">役满</Label>
+                                <Select
+                                  value={String(historyDraft.yakuman)}
+                                  onValueChange={(v) =>
+                                    updateHistoryDraft({ yakuman: Number(v) })
+                                  }
+                                >
+                                  <SelectTrigger className="mt-1 h-8 text-xs">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {yakumanOptions(state.rules).map(
+                                      (multiple) => (
+                                        <SelectItem
+                                          key={multiple}
+                                          value={String(multiple)}
+                                        >
+                                          {multiple === 0
+                                            ? "按番符计算"
+                                            : formatYakuman(multiple)}
+                                        </SelectItem>
+                                      )
+                                    )}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            </div>
+                          )}
+                          {historyDraft.type === "ron" &&
+                            historyDraft.extraWinners.map((extra, extraIdx) => {
+                              const updateExtra = (
+                                patch: Partial<HistoryDraftWinner>
+                              ) => {
+                                const next = [...historyDraft.extraWinners];
+                                next[extraIdx] = { ...extra, ...patch };
+                                updateHistoryDraft({ extraWinners: next });
+                              };
+                              return (
+                                <div
+                                  key={extraIdx}
+                                  className="grid grid-cols-2 gap-3"
+                                >
+                                  <div>
+                                    <Label className="text-xs">
+                                      荣和者 {extraIdx + 2}
+                                    </Label>
+                                    <Select
+                                      value={String(extra.winner)}
+                                      onValueChange={(v) =>
+                                        updateExtra({
+                                          winner: Number(v) as SeatIndex,
+                                        })
+                                      }
+                                    >
+                                      <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {present.names.map((name, idx) => (
+                                          <SelectItem
+                                            key={idx}
+                                            value={String(idx)}
+                                          >
+                                            {name}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                  <div>
+                                    <Label className="text-xs">役满</Label>
+                                    <Select
+                                      value={String(extra.yakuman)}
+                                      onValueChange={(v) =>
+                                        updateExtra({ yakuman: Number(v) })
+                                      }
+                                    >
+                                      <SelectTrigger className="mt-1 h-8 text-xs">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {yakumanOptions(state.rules).map(
+                                          (multiple) => (
+                                            <SelectItem
+                                              key={multiple}
+                                              value={String(multiple)}
+                                            >
+                                              {multiple === 0
+                                                ? "按番符计算"
+                                                : formatYakuman(multiple)}
+                                            </SelectItem>
+                                          )
+                                        )}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                  <div>
+                                    <Label className="text-xs">番数</Label>
+                                    <Input
+                                      className="mt-1 h-8 text-xs"
+                                      type="number"
+                                      min={1}
+                                      disabled={extra.yakuman > 0}
+                                      value={extra.han}
+                                      onChange={(e) =>
+                                        updateExtra({ han: e.target.value })
+                                      }
+                                    />
+                                  </div>
+                                  <div>
+                                    <Label className="text-xs">符数</Label>
+                                    <Input
+                                      className="mt-1 h-8 text-xs"
+                                      type="number"
+                                      min={20}
+                                      step={10}
+                                      disabled={extra.yakuman > 0}
+                                      value={extra.fu}
+                                      onChange={(e) =>
+                                        updateExtra({ fu: e.target.value })
+                                      }
+                                    />
+                                  </div>
+                                </div>
+                              );
+                            })}
+                          {historyDraft.type === "abortive" && (
+                            <div>
+                              <Label className="text-xs">流局原因</Label>
+                              <Select
+                                value={historyDraft.reason}
+                                onValueChange={(v) =>
+                                  updateHistoryDraft({
+                                    reason: v as AbortiveDrawReason,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(ABORTIVE_DRAW_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                          {historyDraft.type === "chombo" && (
+                            <div>
+                              <Label className="text-xs">错和者</Label>
+                              <Select
+                                value={String(historyDraft.offender)}
+                                onValueChange={(v) =>
+                                  updateHistoryDraft({
+                                    offender: Number(v) as SeatIndex,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {present.names.map((name, idx) => (
+                                    <SelectItem key={idx} value={String(idx)}>
+                                      {name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                          {historyDraft.type === "draw" && (
+                            <div>
+                              <div className="mb-1 text-[11px] font-medium text-slate-600">
+                                听牌情况
+                              </div>
+                              <div className="grid grid-cols-2 gap-2">
+                                {present.names.map((name, idx) => (
+                                  <label
+                                    key={idx}
+                                    className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
+                                  >
+                                    <Checkbox
+                                      checked={historyDraft.tenpai[idx]}
+                                      onCheckedChange={(v) => {
+                                        const next = [...historyDraft.tenpai];
+                                        next[idx] = Boolean(v);
+                                        updateHistoryDraft({ tenpai: next });
+                                      }}
+                                    />
+                                    <span className="truncate">{name}</span>
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          {historyDraft.type !== "chombo" && (
+                            <div>
+                              <div className="mb-1 text-[11px] font-medium text-slate-600">
+                                立直情况
+                              </div>
+                              <div className="grid grid-cols-2 gap-2">
+                                {present.names.map((name, idx) => (
+                                  <label
+                                    key={idx}
+                                    className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
+                                  >
+                                    <Checkbox
+                                      checked={historyDraft.riichi[idx]}
+                                      onCheckedChange={(v) => {
+                                        const next = [...historyDraft.riichi];
+                                        next[idx] = Boolean(v);
+                                        updateHistoryDraft({ riichi: next });
+                                      }}
+                                    />
+                                    <span className="truncate">{name}</span>
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <div className="mb-[-0.6rem] text-[11px] font-medium text-slate-600">
+                      终局形势变化
+                    </div>
+                    <div className="rounded-lg bg-slate-50/80 px-3 py-2">
+                      {historyRewrite &&
+                      !("error" in historyRewrite) &&
+                      historyRewriteRanks ? (
+                        <div className="space-y-2">
+                          <div className="grid grid-cols-2 gap-2">
+                            {present.names.map((name, idx) => {
+                              const before = present.points[idx];
+                              const after =
+                                historyRewrite.present.points[idx] ?? before;
+                              const delta = after - before;
+                              const cls =
+                                delta > 0
+                                  ? "text-emerald-600"
+                                  : delta < 0
+                                  ? "text-rose-600"
+                                  : "text-slate-400";
+                              return (
+                                <div
+                                  key={idx}
+                                  className="rounded-md bg-white/70 px-2 py-1"
+                                >
+                                  <div className="flex items-center justify-between">
+                                    <span className="truncate text-[11px] text-slate-600">
+                                      {name}
+                                    </span>
+                                    <span
+                                      className={`text-xs font-semibold tabular-nums ${cls}`}
+                                    >
+                                      {delta === 0 ? "0" : formatDiff(delta)}
+                                    </span>
+                                  </div>
+                                  <div className="text-[11px] tabular-nums text-slate-500">
+                                    {formatPoints(before)} →{" "}
+                                    {formatPoints(after)}，第 {playerRanks[idx]}{" "}
+                                    名 → 第 {historyRewriteRanks[idx]} 名
+                                  </div>
+                                </div>
+                              );
+                            })}
+                          </div>
+                          <div className="text-[11px] text-slate-500">
+                            场况：{roundInfo.label}，{present.kyotaku} 棒 →{" "}
+                            {
+                              getRoundInfo(historyRewrite.present, state.rules)
+                                .label
+                            }
+                            ，{historyRewrite.present.kyotaku} 棒
+                          </div>
+                          {historyRewrite.warnings.map((warning) => (
+                            <div
+                              key={warning}
+                              className="text-[11px] font-medium text-amber-700"
+                            >
+                              {warning}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="text-[11px] font-medium text-rose-600">
+                          {historyRewrite && "error" in historyRewrite
+                            ? historyRewrite.error
+                            : "请先完整选择和填写"}
+                        </div>
+                      )}
+                    </div>
+                    <DialogFooter className="mt-4 flex flex-row justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="h-8 px-3 text-xs"
+                        onClick={() => setHistoryEditId(null)}
+                      >
+                        取消
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        disabled={!historyRewrite || "error" in historyRewrite}
+                        className={`h-8 px-3 text-xs ${
+                          historyDelete ? "bg-rose-600 hover:bg-rose-700" : ""
+                        }`}
+                        onClick={() => {
+                          const ok = handleHistoryEditConfirm();
+                          if (ok) {
+                            setHistoryEditId(null);
+                          }
+                        }}
+                      >
+                        {historyDelete ? "确认删除" : "确认修改"}
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+              </CardContent>
+            </Card>
+
+            <Card className="border-none bg-white/80 shadow-md shadow-slate-200/70 h-full overflow-y-auto">
+              <CardHeader className="space-y-2 pb-4 sticky top-0 bg-white z-10">
+                <CardTitle className="flex items-center justify-between text-sm font-semibold text-slate-700">
+                  <span>操作栏</span>
+                  <span className="flex items-center gap-1 text-[11px] text-slate-400">
+                    <Wand2 className="h-3 w-3" />
+                    调整比赛进程或录入结算
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 pt-0 text-xs">
+                <div className="space-y-2">
+                  <div className="text-[11px] font-semibold tracking-wide text-slate-500">
+                    结算信息
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {/* 流局 */}
+                    <Dialog open={drawOpen} onOpenChange={setDrawOpen}>
+                      <DialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-8 px-3 text-xs"
+                          disabled={isGameFinished}
+                        >
+                          流局
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-md">
+                        <DialogHeader>
+                          <DialogTitle>流局结算</DialogTitle>
+                          <DialogDescription className="truncate max-w-60">
+                            {roundInfo.label}， 庄家：
+                            {present.names[present.dealerIndex]}
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="mt-2 space-y-4 text-xs">
+                          <div>
+                            <Label className="text-xs">流局类型</Label>
+                            <Select
+                              value={drawMode}
+                              onValueChange={(v) =>
+                                setDrawMode(v as typeof drawMode)
+                              }
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="exhaustive">
+                                  荒牌流局
+                                </SelectItem>
+                                {Object.entries(ABORTIVE_DRAW_LABELS).map(
+                                  ([value, label]) => (
+                                    <SelectItem key={value} value={value}>
+                                      途中流局：{label}
+                                    </SelectItem>
+                                  )
+                                )}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {drawMode === "exhaustive" ? (
+                            <div>
+                              <div className="mb-1 text-[11px] font-medium text-slate-600">
+                                听牌情况
+                              </div>
+                              <div className="grid grid-cols-2 gap-2">
+                                {present.names.map((name, idx) => (
+                                  <label
+                                    key={idx}
+                                    className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
+                                  >
+                                    <Checkbox
+                                      checked={drawTenpai[idx]}
+                                      onCheckedChange={(v) => {
+                                        const next = [...drawTenpai];
+                                        next[idx] = Boolean(v);
+                                        setDrawTenpai(next);
+                                      }}
+                                    />
+                                    <span className="truncate">{name}</span>
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="text-[11px] text-slate-500">
+                              途中流局不计罚符，本局立直棒留在场上，
+                              {drawPreview.breakdown.dealerContinues
+                                ? "庄家连庄"
+                                : "轮庄"}
+                              {drawPreview.next.honba > present.honba
+                                ? "并累加本场。"
+                                : "，本场清零。"}
+                            </div>
+                          )}
+                          {drawMode === "exhaustive" && (
+                            <div>
+                              <div className="mb-1 text-[11px] font-medium text-slate-600">
+                                流局满贯
+                              </div>
+                              <div className="grid grid-cols-2 gap-2">
+                                {present.names.map((name, idx) => (
+                                  <label
+                                    key={idx}
+                                    className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
+                                  >
+                                    <Checkbox
+                                      checked={drawNagashi[idx]}
+                                      onCheckedChange={(v) => {
+                                        const next = [...drawNagashi];
+                                        next[idx] = Boolean(v);
+                                        setDrawNagashi(next);
+                                      }}
+                                    />
+                                    <span className="truncate">{name}</span>
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          <div>
+                            <div className="mb-1 text-[11px] font-medium text-slate-600">
+                              立直情况
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                              {present.names.map((name, idx) => (
+                                <label
+                                  key={idx}
+                                  className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
+                                >
+                                  <Checkbox
+                                    checked={drawRiichi[idx]}
+                                    onCheckedChange={(v) => {
+                                      const next = [...drawRiichi];
+                                      next[idx] = Boolean(v);
+                                      setDrawRiichi(next);
+                                    }}
+                                  />
+                                  <span className="truncate">{name}</span>
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="mb-[-0.6rem] text-[11px] font-medium text-slate-600">
+                          结算预览
+                        </div>
+                        <div className="rounded-lg bg-slate-50/80 px-3 py-2">
+                          <div className="grid grid-cols-2 gap-2">
+                            {present.names.map((name, idx) => {
+                              const delta = drawPreview.deltas[idx] ?? 0;
+                              const cls =
+                                delta > 0
+                                  ? "text-emerald-600"
+                                  : delta < 0
+                                  ? "text-rose-600"
+                                  : "text-slate-400";
+                              return (
+                                <div
+                                  key={idx}
+                                  className="flex items-center justify-between rounded-md bg-white/70 px-2 py-1"
+                                >
+                                  <span className="truncate text-[11px] text-slate-600">
+                                    {name}
+                                  </span>
+                                  <span
+                                    className={`text-xs font-semibold tabular-nums ${cls}`}
+                                  >
+                                    {delta === 0 ? "0" : formatDiff(delta)}
+                                  </span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                          {drawPreview.breakdown.bustIndices.length > 0 && (
+                            <div className="text-[11px] font-medium text-rose-600">
+                              {formatBustNames(
+                                drawPreview.breakdown.bustIndices
+                              )}{" "}
+                              将被击飞，对局结束
+                            </div>
+                          )}
+                          <div className="mt-3 text-[11px] text-slate-600">
                             流局的场供收入：{" "}
                             <span
                               className={`font-semibold ${
@@ -1718,9 +3006,12 @@ function App() {
                             </span>
                           </div>
                           <div className="text-[11px] text-slate-500">
-                            历史立直供托 {formatPoints(
-                              drawPreview.kyotakuBefore * 1000
-                            )} 点，收入后共 {formatPoints(drawPreview.kyotakuAfter * 1000)}{" "}点
+                            历史立直供托{" "}
+                            {formatPoints(
+                              getKyotakuPoints(settleBase, state.rules)
+                            )}{" "}
+                            点，收入后共{" "}
+                            {formatPoints(drawPreview.next.kyotakuPoints)} 点
                           </div>
                         </div>
                         <DialogFooter className="mt-4 flex flex-row justify-end gap-2">
@@ -1762,12 +3053,12 @@ function App() {
                           自摸
                         </Button>
                       </DialogTrigger>
-                      <DialogContent className="max-w-md">
+                      <DialogContent className="max-h-[85vh] max-w-md overflow-y-auto">
                         <DialogHeader>
                           <DialogTitle>自摸结算</DialogTitle>
                           <DialogDescription className="truncate max-w-60">
                             {roundInfo.label}， 庄家：
-                            {state.present.names[state.present.dealerIndex]}
+                            {present.names[present.dealerIndex]}
                           </DialogDescription>
                         </DialogHeader>
                         <div className="mt-2 space-y-4 text-xs">
@@ -1788,7 +3079,7 @@ function App() {
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  {state.present.names.map((name, idx) => (
+                                  {present.names.map((name, idx) => (
                                     <SelectItem key={idx} value={String(idx)}>
                                       {name}
                                     </SelectItem>
@@ -1803,8 +3094,12 @@ function App() {
                                   className="mt-1 h-8 text-xs"
                                   type="number"
                                   min={1}
+                                  disabled={tsumoYakuman > 0}
                                   value={tsumoHan}
-                                  onChange={(e) => setTsumoHan(e.target.value)}
+                                  onChange={(e) => {
+                                    setTsumoHan(e.target.value);
+                                    setTsumoYaku([]);
+                                  }}
                                 />
                               </div>
                               <div>
@@ -1814,29 +3109,131 @@ function App() {
                                   type="number"
                                   min={20}
                                   step={10}
+                                  disabled={tsumoYakuman > 0}
                                   value={tsumoFu}
-                                  onChange={(e) => setTsumoFu(e.target.value)}
+                                  onChange={(e) => {
+                                    setTsumoFu(e.target.value);
+                                    setTsumoYaku([]);
+                                  }}
                                 />
                               </div>
                             </div>
                           </div>
+                          {renderHandAnalyzer("tsumo")}
+                          {renderYakuPicker("tsumo")}
                           <div>
-                            <div className="mb-1 text-[11px] font-medium text-slate-600">
-                              立直情况
-                            </div>
-                            <div className="grid grid-cols-2 gap-2">
-                              {state.present.names.map((name, idx) => (
-                                <label
-                                  key={idx}
-                                  className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
-                                >
-                                  <Checkbox
-                                    checked={tsumoRiichi[idx]}
-                                    onCheckedChange={(v) => {
-                                      const next = [...tsumoRiichi];
-                                      next[idx] = Boolean(v);
-                                      setTsumoRiichi(next);
-                                    }}
+                            <Label className="text-xs">
+                              按点数录入（可选）
+                            </Label>
+                            <Input
+                              className="mt-1 h-8 text-xs"
+                              placeholder={"如 1300-2600 或 2600 all"}
+                              value={tsumoAmount}
+                              onChange={(e) =>
+                                handleTsumoAmountChange(e.target.value)
+                              }
+                            />
+                            {tsumoAmountLookup.error && (
+                              <div className="mt-1 text-[11px] font-medium text-rose-600">
+                                {tsumoAmountLookup.error}
+                              </div>
+                            )}
+                            {tsumoAmountLookup.candidates.length > 1 && (
+                              <div className="mt-1 flex flex-wrap items-center gap-1">
+                                <span className="text-[11px] text-slate-500">
+                                  可能为：
+                                </span>
+                                {tsumoAmountLookup.candidates.map(
+                                  (candidate) => (
+                                    <Button
+                                      key={candidate.label}
+                                      type="button"
+                                      variant="outline"
+                                      size="sm"
+                                      className="h-6 px-2 text-[11px]"
+                                      onClick={() =>
+                                        applyTsumoCandidate(candidate)
+                                      }
+                                    >
+                                      {candidate.label}
+                                    </Button>
+                                  )
+                                )}
+                              </div>
+                            )}
+                          </div>
+                          <div>
+                            <Label className="text-xs">役满</Label>
+                            <Select
+                              value={String(tsumoYakuman)}
+                              onValueChange={(v) => {
+                                setTsumoYakuman(Number(v));
+                                setTsumoYaku([]);
+                              }}
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {yakumanOptions(state.rules).map((multiple) => (
+                                  <SelectItem
+                                    key={multiple}
+                                    value={String(multiple)}
+                                  >
+                                    {multiple === 0
+                                      ? "按番符计算"
+                                      : formatYakuman(multiple)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label className="text-xs">包牌者</Label>
+                            <Select
+                              value={
+                                tsumoLiable !== null
+                                  ? String(tsumoLiable)
+                                  : "none"
+                              }
+                              onValueChange={(v) =>
+                                setTsumoLiable(
+                                  v === "none" ? null : (Number(v) as SeatIndex)
+                                )
+                              }
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">无</SelectItem>
+                                {present.names.map((name, idx) =>
+                                  idx === tsumoWinner ? null : (
+                                    <SelectItem key={idx} value={String(idx)}>
+                                      {name}
+                                    </SelectItem>
+                                  )
+                                )}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <div className="mb-1 text-[11px] font-medium text-slate-600">
+                              立直情况
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                              {present.names.map((name, idx) => (
+                                <label
+                                  key={idx}
+                                  className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
+                                >
+                                  <Checkbox
+                                    checked={tsumoRiichi[idx]}
+                                    onCheckedChange={(v) => {
+                                      const next = [...tsumoRiichi];
+                                      next[idx] = Boolean(v);
+                                      setTsumoRiichi(next);
+                                    }}
                                   />
                                   <span className="truncate">{name}</span>
                                 </label>
@@ -1850,8 +3247,16 @@ function App() {
                         <div className="rounded-lg bg-slate-50/80 px-3 py-2">
                           {tsumoPreview ? (
                             <div className="space-y-3">
+                              {tsumoPayout && (
+                                <div className="text-[11px] text-slate-600">
+                                  点数{" "}
+                                  <span className="font-semibold tabular-nums">
+                                    {tsumoPayout}
+                                  </span>
+                                </div>
+                              )}
                               <div className="grid grid-cols-2 gap-2">
-                                {state.present.names.map((name, idx) => {
+                                {present.names.map((name, idx) => {
                                   const delta = tsumoPreview.deltas[idx] ?? 0;
                                   const cls =
                                     delta > 0
@@ -1876,14 +3281,19 @@ function App() {
                                   );
                                 })}
                               </div>
+                              {tsumoPreview.breakdown.bustIndices.length >
+                                0 && (
+                                <div className="text-[11px] font-medium text-rose-600">
+                                  {formatBustNames(
+                                    tsumoPreview.breakdown.bustIndices
+                                  )}{" "}
+                                  将被击飞，对局结束
+                                </div>
+                              )}
                               {tsumoPreview.winnerIndex !== null && (
                                 <div className="mt-2 text-[11px] text-slate-600">
                                   <span className="font-medium">
-                                    {
-                                      state.present.names[
-                                        tsumoPreview.winnerIndex
-                                      ]
-                                    }
+                                    {present.names[tsumoPreview.winnerIndex]}
                                   </span>
                                   <span> 自摸的最终收入：</span>
                                   <span
@@ -1907,10 +3317,10 @@ function App() {
                                     {tsumoPreview.deltas[
                                       tsumoPreview.winnerIndex
                                     ] -
-                                      state.present.honba * 300 -
+                                      tsumoPreview.honbaIncome -
                                       tsumoPreview.kyotakuIncome -
                                       tsumoPreview.riichiIncome}{" "}
-                                    点、本场棒 {state.present.honba * 300}{" "}
+                                    点、本场棒 {tsumoPreview.honbaIncome}{" "}
                                     点、历史立直供托{" "}
                                     {formatPoints(tsumoPreview.kyotakuIncome)}{" "}
                                     点、本局立直供托{" "}
@@ -1920,8 +3330,8 @@ function App() {
                               )}
                             </div>
                           ) : (
-                            <div className="text-[11px] text-slate-400">
-                              请先完整选择和填写
+                            <div className="text-[11px] font-medium text-rose-600">
+                              {tsumoError ?? "请先完整选择和填写"}
                             </div>
                           )}
                         </div>
@@ -1938,6 +3348,7 @@ function App() {
                           <Button
                             type="button"
                             size="sm"
+                            disabled={!tsumoInput}
                             className="h-8 px-3 text-xs"
                             onClick={() => {
                               const ok = handleTsumoConfirm();
@@ -1964,12 +3375,12 @@ function App() {
                           荣和
                         </Button>
                       </DialogTrigger>
-                      <DialogContent className="max-w-md">
+                      <DialogContent className="max-h-[85vh] max-w-md overflow-y-auto">
                         <DialogHeader>
                           <DialogTitle>荣和结算</DialogTitle>
                           <DialogDescription className="truncate max-w-60">
                             {roundInfo.label}， 庄家：
-                            {state.present.names[state.present.dealerIndex]}
+                            {present.names[present.dealerIndex]}
                           </DialogDescription>
                         </DialogHeader>
                         <div className="mt-2 space-y-4 text-xs">
@@ -1988,7 +3399,7 @@ function App() {
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  {state.present.names.map((name, idx) => (
+                                  {present.names.map((name, idx) => (
                                     <SelectItem key={idx} value={String(idx)}>
                                       {name}
                                     </SelectItem>
@@ -2010,7 +3421,7 @@ function App() {
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  {state.present.names.map((name, idx) => (
+                                  {present.names.map((name, idx) => (
                                     <SelectItem
                                       className="span-ellipsis"
                                       key={idx}
@@ -2030,8 +3441,12 @@ function App() {
                                 className="mt-1 h-8 text-xs"
                                 type="number"
                                 min={1}
+                                disabled={ronYakuman > 0}
                                 value={ronHan}
-                                onChange={(e) => setRonHan(e.target.value)}
+                                onChange={(e) => {
+                                  setRonHan(e.target.value);
+                                  setRonYaku([]);
+                                }}
                               />
                             </div>
                             <div>
@@ -2041,17 +3456,289 @@ function App() {
                                 type="number"
                                 min={20}
                                 step={10}
+                                disabled={ronYakuman > 0}
                                 value={ronFu}
-                                onChange={(e) => setRonFu(e.target.value)}
+                                onChange={(e) => {
+                                  setRonFu(e.target.value);
+                                  setRonYaku([]);
+                                }}
                               />
                             </div>
                           </div>
+                          {renderHandAnalyzer("ron")}
+                          {renderYakuPicker("ron")}
+                          <div>
+                            <Label className="text-xs">
+                              按点数录入（可选）
+                            </Label>
+                            <Input
+                              className="mt-1 h-8 text-xs"
+                              placeholder={"如 7700"}
+                              value={ronAmount}
+                              onChange={(e) =>
+                                handleRonAmountChange(e.target.value)
+                              }
+                            />
+                            {ronAmountLookup.error && (
+                              <div className="mt-1 text-[11px] font-medium text-rose-600">
+                                {ronAmountLookup.error}
+                              </div>
+                            )}
+                            {ronAmountLookup.candidates.length > 1 && (
+                              <div className="mt-1 flex flex-wrap items-center gap-1">
+                                <span className="text-[11px] text-slate-500">
+                                  可能为：
+                                </span>
+                                {ronAmountLookup.candidates.map((candidate) => (
+                                  <Button
+                                    key={candidate.label}
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-6 px-2 text-[11px]"
+                                    onClick={() => applyRonCandidate(candidate)}
+                                  >
+                                    {candidate.label}
+                                  </Button>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                          <div>
+                            <Label className="text-xs">役满</Label>
+                            <Select
+                              value={String(ronYakuman)}
+                              onValueChange={(v) => {
+                                setRonYakuman(Number(v));
+                                setRonYaku([]);
+                              }}
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {yakumanOptions(state.rules).map((multiple) => (
+                                  <SelectItem
+                                    key={multiple}
+                                    value={String(multiple)}
+                                  >
+                                    {multiple === 0
+                                      ? "按番符计算"
+                                      : formatYakuman(multiple)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label className="text-xs">包牌者</Label>
+                            <Select
+                              value={
+                                ronLiable !== null ? String(ronLiable) : "none"
+                              }
+                              onValueChange={(v) =>
+                                setRonLiable(
+                                  v === "none" ? null : (Number(v) as SeatIndex)
+                                )
+                              }
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">无</SelectItem>
+                                {present.names.map((name, idx) =>
+                                  idx === ronWinner ||
+                                  idx === ronLoser ? null : (
+                                    <SelectItem key={idx} value={String(idx)}>
+                                      {name}
+                                    </SelectItem>
+                                  )
+                                )}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {ronExtraWinners.map((extra, extraIdx) => {
+                            const updateExtra = (
+                              patch: Partial<(typeof ronExtraWinners)[number]>
+                            ) => {
+                              const next = [...ronExtraWinners];
+                              next[extraIdx] = { ...extra, ...patch };
+                              setRonExtraWinners(next);
+                            };
+                            return (
+                              <div
+                                key={extraIdx}
+                                className="grid grid-cols-[2fr,1fr,1fr,auto] items-end gap-2"
+                              >
+                                <div>
+                                  <Label className="text-xs">
+                                    荣和者 {extraIdx + 2}
+                                  </Label>
+                                  <Select
+                                    value={
+                                      extra.winner !== null
+                                        ? String(extra.winner)
+                                        : ""
+                                    }
+                                    onValueChange={(v) =>
+                                      updateExtra({
+                                        winner: Number(v) as SeatIndex,
+                                      })
+                                    }
+                                  >
+                                    <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                      <SelectValue placeholder="选择" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {present.names.map((name, idx) => (
+                                        <SelectItem
+                                          key={idx}
+                                          value={String(idx)}
+                                        >
+                                          {name}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                <div>
+                                  <Label className="text-xs">番数</Label>
+                                  <Input
+                                    className="mt-1 h-8 text-xs"
+                                    type="number"
+                                    min={1}
+                                    disabled={extra.yakuman > 0}
+                                    value={extra.han}
+                                    onChange={(e) =>
+                                      updateExtra({ han: e.target.value })
+                                    }
+                                  />
+                                </div>
+                                <div>
+                                  <Label className="text-xs">符数</Label>
+                                  <Input
+                                    className="mt-1 h-8 text-xs"
+                                    type="number"
+                                    min={20}
+                                    step={10}
+                                    disabled={extra.yakuman > 0}
+                                    value={extra.fu}
+                                    onChange={(e) =>
+                                      updateExtra({ fu: e.target.value })
+                                    }
+                                  />
+                                </div>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 w-8 p-0 text-slate-400"
+                                  onClick={() =>
+                                    setRonExtraWinners(
+                                      ronExtraWinners.filter(
+                                        (_, i) => i !== extraIdx
+                                      )
+                                    )
+                                  }
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                                <div className="col-span-2">
+                                  <Label className="text-xs">役满</Label>
+                                  <Select
+                                    value={String(extra.yakuman)}
+                                    onValueChange={(v) =>
+                                      updateExtra({ yakuman: Number(v) })
+                                    }
+                                  >
+                                    <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {yakumanOptions(state.rules).map(
+                                        (multiple) => (
+                                          <SelectItem
+                                            key={multiple}
+                                            value={String(multiple)}
+                                          >
+                                            {multiple === 0
+                                              ? "按番符计算"
+                                              : formatYakuman(multiple)}
+                                          </SelectItem>
+                                        )
+                                      )}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                <div className="col-span-2">
+                                  <Label className="text-xs">包牌者</Label>
+                                  <Select
+                                    value={
+                                      extra.liable !== null
+                                        ? String(extra.liable)
+                                        : "none"
+                                    }
+                                    onValueChange={(v) =>
+                                      updateExtra({
+                                        liable:
+                                          v === "none"
+                                            ? null
+                                            : (Number(v) as SeatIndex),
+                                      })
+                                    }
+                                  >
+                                    <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="none">无</SelectItem>
+                                      {present.names.map((name, idx) =>
+                                        idx === extra.winner ||
+                                        idx === ronLoser ? null : (
+                                          <SelectItem
+                                            key={idx}
+                                            value={String(idx)}
+                                          >
+                                            {name}
+                                          </SelectItem>
+                                        )
+                                      )}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                              </div>
+                            );
+                          })}
+                          {ronExtraWinners.length <
+                            present.points.length - 2 && (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              className="h-7 px-2 text-[11px]"
+                              onClick={() =>
+                                setRonExtraWinners([
+                                  ...ronExtraWinners,
+                                  {
+                                    winner: null,
+                                    han: "1",
+                                    fu: "30",
+                                    yakuman: 0,
+                                    liable: null,
+                                  },
+                                ])
+                              }
+                            >
+                              添加荣和者（一炮多响）
+                            </Button>
+                          )}
                           <div>
                             <div className="mb-1 text-[11px] font-medium text-slate-600">
                               立直情况
                             </div>
                             <div className="grid grid-cols-2 gap-2">
-                              {state.present.names.map((name, idx) => (
+                              {present.names.map((name, idx) => (
                                 <label
                                   key={idx}
                                   className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
@@ -2070,6 +3757,18 @@ function App() {
                                 </label>
                               ))}
                             </div>
+                            {ronLoser !== null && ronRiichi[ronLoser] && (
+                              <label className="mt-2 flex items-center gap-2 text-xs text-slate-700">
+                                <Checkbox
+                                  checked={ronRiichiVoided}
+                                  onCheckedChange={(v) =>
+                                    setRonRiichiVoided(Boolean(v))
+                                  }
+                                />
+                                放铳牌为 {present.names[ronLoser]}{" "}
+                                的立直宣言牌（立直不成立，退还立直棒）
+                              </label>
+                            )}
                           </div>
                         </div>
                         <div className="mb-[-0.6rem] text-[11px] font-medium text-slate-600">
@@ -2078,8 +3777,18 @@ function App() {
                         <div className="rounded-lg bg-slate-50/80 px-3 py-2">
                           {ronPreview ? (
                             <div className="space-y-3">
+                              <div className="flex flex-wrap gap-3 text-[11px] text-slate-600">
+                                {ronPayouts.map(({ winner, payout }) => (
+                                  <span key={winner}>
+                                    {present.names[winner]} 点数{" "}
+                                    <span className="font-semibold tabular-nums">
+                                      {payout}
+                                    </span>
+                                  </span>
+                                ))}
+                              </div>
                               <div className="grid grid-cols-2 gap-2">
-                                {state.present.names.map((name, idx) => {
+                                {present.names.map((name, idx) => {
                                   const delta = ronPreview.deltas[idx] ?? 0;
                                   const cls =
                                     delta > 0
@@ -2104,14 +3813,18 @@ function App() {
                                   );
                                 })}
                               </div>
+                              {ronPreview.breakdown.bustIndices.length > 0 && (
+                                <div className="text-[11px] font-medium text-rose-600">
+                                  {formatBustNames(
+                                    ronPreview.breakdown.bustIndices
+                                  )}{" "}
+                                  将被击飞，对局结束
+                                </div>
+                              )}
                               {ronPreview.winnerIndex !== null && (
                                 <div className="mt-2 text-[11px] text-slate-600">
                                   <span className="font-medium">
-                                    {
-                                      state.present.names[
-                                        ronPreview.winnerIndex
-                                      ]
-                                    }
+                                    {present.names[ronPreview.winnerIndex]}
                                   </span>
                                   <span> 荣和的最终收入：</span>
                                   <span
@@ -2133,10 +3846,10 @@ function App() {
                                   <div className="mt-1 text-[11px] text-slate-500">
                                     得分{" "}
                                     {ronPreview.deltas[ronPreview.winnerIndex] -
-                                      state.present.honba * 300 -
+                                      ronPreview.honbaIncome -
                                       ronPreview.kyotakuIncome -
                                       ronPreview.riichiIncome}{" "}
-                                    点、本场棒 {state.present.honba * 300}{" "}
+                                    点、本场棒 {ronPreview.honbaIncome}{" "}
                                     点、历史立直供托{" "}
                                     {formatPoints(ronPreview.kyotakuIncome)}{" "}
                                     点、本局立直供托{" "}
@@ -2146,8 +3859,8 @@ function App() {
                               )}
                             </div>
                           ) : (
-                            <div className="text-[11px] text-slate-400">
-                              请先完整选择和填写
+                            <div className="text-[11px] font-medium text-rose-600">
+                              {ronError ?? "请先完整选择和填写"}
                             </div>
                           )}
                         </div>
@@ -2164,6 +3877,7 @@ function App() {
                           <Button
                             type="button"
                             size="sm"
+                            disabled={!ronInput}
                             className="h-8 px-3 text-xs"
                             onClick={() => {
                               const ok = handleRonConfirm();
@@ -2177,98 +3891,316 @@ function App() {
                         </DialogFooter>
                       </DialogContent>
                     </Dialog>
-                  </div>
-                  <div className="flex flex-wrap gap-2">
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <span>
+
+                    {/* 错和 */}
+                    <Dialog open={chomboOpen} onOpenChange={setChomboOpen}>
+                      <DialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-8 px-3 text-xs"
+                          disabled={isGameFinished}
+                        >
+                          错和
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-md">
+                        <DialogHeader>
+                          <DialogTitle>错和结算</DialogTitle>
+                          <DialogDescription className="truncate max-w-60">
+                            {roundInfo.label}， 庄家：
+                            {present.names[present.dealerIndex]}
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="mt-2 space-y-4 text-xs">
+                          <div>
+                            <Label className="text-xs">错和者</Label>
+                            <Select
+                              value={String(chomboOffender)}
+                              onValueChange={(v) =>
+                                setChomboOffender(Number(v) as SeatIndex)
+                              }
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {present.names.map((name, idx) => (
+                                  <SelectItem key={idx} value={String(idx)}>
+                                    {name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="text-[11px] text-slate-500">
+                            罚则：{CHOMBO_RULE_LABELS[state.rules.chomboRule]}
+                            。本局作废，场次与本场不变，本局宣告的立直棒全部退还。
+                          </div>
+                        </div>
+                        <div className="mb-[-0.6rem] text-[11px] font-medium text-slate-600">
+                          结算预览
+                        </div>
+                        <div className="rounded-lg bg-slate-50/80 px-3 py-2">
+                          <div className="grid grid-cols-2 gap-2">
+                            {present.names.map((name, idx) => {
+                              const delta = chomboPreview.deltas[idx] ?? 0;
+                              const cls =
+                                delta > 0
+                                  ? "text-emerald-600"
+                                  : delta < 0
+                                  ? "text-rose-600"
+                                  : "text-slate-400";
+                              return (
+                                <div
+                                  key={idx}
+                                  className="flex items-center justify-between rounded-md bg-white/70 px-2 py-1"
+                                >
+                                  <span className="truncate text-[11px] text-slate-600">
+                                    {name}
+                                  </span>
+                                  <span
+                                    className={`text-xs font-semibold tabular-nums ${cls}`}
+                                  >
+                                    {delta === 0 ? "0" : formatDiff(delta)}
+                                  </span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                          {chomboPreview.umaPenalties[chomboOffender] > 0 && (
+                            <div className="mt-2 text-[11px] font-medium text-rose-600">
+                              {present.names[chomboOffender]} 终局成绩扣除{" "}
+                              {chomboPreview.umaPenalties[chomboOffender]} 分
+                            </div>
+                          )}
+                          {chomboPreview.breakdown.bustIndices.length > 0 && (
+                            <div className="text-[11px] font-medium text-rose-600">
+                              {formatBustNames(
+                                chomboPreview.breakdown.bustIndices
+                              )}{" "}
+                              将被击飞，对局结束
+                            </div>
+                          )}
+                        </div>
+                        <DialogFooter className="mt-4 flex flex-row justify-end gap-2">
                           <Button
+                            type="button"
                             variant="outline"
                             size="sm"
                             className="h-8 px-3 text-xs"
-                            disabled={!canUndo}
-                            onClick={handleUndoLastSettlement}
+                            onClick={() => setChomboOpen(false)}
                           >
-                            撤销结算
+                            取消
                           </Button>
-                        </span>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        {canUndo ? (
-                          <span>撤销上一次操作</span>
-                        ) : (
-                          <span>暂无可撤销的结算</span>
-                        )}
-                      </TooltipContent>
-                    </Tooltip>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <span>
                           <Button
-                            variant="outline"
+                            type="button"
                             size="sm"
                             className="h-8 px-3 text-xs"
-                            disabled={!canRedo}
-                            onClick={handleRedoLastSettlement}
+                            onClick={() => {
+                              const ok = handleChomboConfirm();
+                              if (ok) {
+                                setChomboOpen(false);
+                              }
+                            }}
                           >
-                            重做结算
+                            确认错和
                           </Button>
-                        </span>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        {canRedo ? (
-                          <span>重做上一次操作</span>
-                        ) : (
-                          <span>暂无可重做的结算</span>
-                        )}
-                      </TooltipContent>
-                    </Tooltip>
-                  </div>
-                </div>
-
-                <div className="h-px w-full bg-gradient-to-r from-transparent via-slate-200 to-transparent" />
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
 
-                <div className="space-y-2">
-                  <div className="text-[11px] font-semibold tracking-wide text-slate-500">
-                    比赛进程
-                  </div>
-                  <div className="flex flex-wrap gap-2">
-                    <Dialog
-                      open={editRoundOpen}
-                      onOpenChange={setEditRoundOpen}
-                    >
+                    {/* 手动调整 */}
+                    <Dialog open={adjustOpen} onOpenChange={setAdjustOpen}>
                       <DialogTrigger asChild>
                         <Button
                           variant="outline"
                           size="sm"
                           className="h-8 px-3 text-xs"
                         >
-                          调整场况
+                          手动调整
                         </Button>
                       </DialogTrigger>
                       <DialogContent className="max-w-md">
                         <DialogHeader>
-                          <DialogTitle>调整场况</DialogTitle>
+                          <DialogTitle>手动调整点数</DialogTitle>
                           <DialogDescription>
-                            手动修正当前场次、庄家与本场数，点数不发生变化。
+                            直接在玩家之间移动点数，场次、庄家、本场与场供不变。
                           </DialogDescription>
                         </DialogHeader>
                         <div className="mt-2 space-y-4 text-xs">
-                          <div className="grid grid-cols-2 gap-3">
-                            <div>
-                              <Label className="text-xs">场风</Label>
-                              <Select
-                                value={editWind}
-                                onValueChange={(v) =>
-                                  setEditWind(v as RoundWind)
-                                }
-                              >
+                          <div className="grid grid-cols-2 gap-2">
+                            {present.names.map((name, idx) => (
+                              <div key={idx}>
+                                <Label className="text-xs truncate max-w-60">
+                                  {name}
+                                </Label>
+                                <Input
+                                  className="mt-1 h-8 text-xs"
+                                  type="number"
+                                  step={100}
+                                  placeholder="0"
+                                  value={adjustDeltas[idx] ?? ""}
+                                  onChange={(e) => {
+                                    const next = present.points.map(
+                                      (_, i) => adjustDeltas[i] ?? ""
+                                    );
+                                    next[idx] = e.target.value;
+                                    setAdjustDeltas(next);
+                                  }}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                          <div>
+                            <Label className="text-xs">调整原因</Label>
+                            <Input
+                              className="mt-1 h-8 text-xs"
+                              placeholder="例如：上一局支付点数有误"
+                              value={adjustReason}
+                              onChange={(e) => setAdjustReason(e.target.value)}
+                            />
+                          </div>
+                          <label className="flex items-center gap-2 text-xs text-slate-700">
+                            <Checkbox
+                              checked={adjustNonZeroSum}
+                              onCheckedChange={(v) =>
+                                setAdjustNonZeroSum(Boolean(v))
+                              }
+                            />
+                            允许点差合计不为 0（场上总点数将随之变化）
+                          </label>
+                          <div
+                            className={`text-[11px] font-medium ${
+                              adjustError ? "text-rose-600" : "text-slate-500"
+                            }`}
+                          >
+                            {adjustError ??
+                              `点差合计 ${formatDiff(adjustSum)} 点`}
+                          </div>
+                        </div>
+                        <DialogFooter className="mt-4 flex flex-row justify-end gap-2">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-8 px-3 text-xs"
+                            onClick={() => setAdjustOpen(false)}
+                          >
+                            取消
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            disabled={adjustError !== null}
+                            className="h-8 px-3 text-xs"
+                            onClick={() => {
+                              const ok = handleAdjustConfirm();
+                              if (ok) {
+                                setAdjustOpen(false);
+                              }
+                            }}
+                          >
+                            确认调整
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8 px-3 text-xs"
+                            disabled={!canUndo}
+                            onClick={handleUndoLastSettlement}
+                          >
+                            撤销结算
+                          </Button>
+                        </span>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {canUndo ? (
+                          <span>撤销上一次操作</span>
+                        ) : (
+                          <span>暂无可撤销的结算</span>
+                        )}
+                      </TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8 px-3 text-xs"
+                            disabled={!canRedo}
+                            onClick={handleRedoLastSettlement}
+                          >
+                            重做结算
+                          </Button>
+                        </span>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {canRedo ? (
+                          <span>重做上一次操作</span>
+                        ) : (
+                          <span>暂无可重做的结算</span>
+                        )}
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                </div>
+
+                <div className="h-px w-full bg-gradient-to-r from-transparent via-slate-200 to-transparent" />
+
+                <div className="space-y-2">
+                  <div className="text-[11px] font-semibold tracking-wide text-slate-500">
+                    比赛进程
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Dialog
+                      open={editRoundOpen}
+                      onOpenChange={setEditRoundOpen}
+                    >
+                      <DialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-8 px-3 text-xs"
+                        >
+                          调整场况
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-md">
+                        <DialogHeader>
+                          <DialogTitle>调整场况</DialogTitle>
+                          <DialogDescription>
+                            手动修正当前场次、庄家与本场数，点数不发生变化。
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="mt-2 space-y-4 text-xs">
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">场风</Label>
+                              <Select
+                                value={editWind}
+                                onValueChange={(v) =>
+                                  setEditWind(v as RoundWind)
+                                }
+                              >
                                 <SelectTrigger className="mt-1 h-8 text-xs">
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  <SelectItem value="东">东风场</SelectItem>
-                                  <SelectItem value="南">南风场</SelectItem>
+                                  {getPlayableWinds(state.rules).map((wind) => (
+                                    <SelectItem key={wind} value={wind}>
+                                      {wind}风场
+                                    </SelectItem>
+                                  ))}
                                 </SelectContent>
                               </Select>
                             </div>
@@ -2278,21 +4210,15 @@ function App() {
                                 className="mt-1 h-8 text-xs"
                                 type="number"
                                 min={1}
-                                max={4}
+                                max={present.points.length}
                                 value={editNumber}
                                 onChange={(e) => {
-                                  setEditNumber(
-                                    Math.min(
-                                      4,
-                                      Math.max(1, Number(e.target.value) || 1)
-                                    )
-                                  );
-                                  setEditDealer(
-                                    (Math.min(
-                                      4,
-                                      Math.max(1, Number(e.target.value) || 1)
-                                    ) - 1) as SeatIndex
+                                  const number = Math.min(
+                                    present.points.length,
+                                    Math.max(1, Number(e.target.value) || 1)
                                   );
+                                  setEditNumber(number);
+                                  setEditDealer((number - 1) as SeatIndex);
                                 }}
                               />
                             </div>
@@ -2325,7 +4251,7 @@ function App() {
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  {state.present.names.map((name, idx) => (
+                                  {present.names.map((name, idx) => (
                                     <SelectItem key={idx} value={String(idx)}>
                                       {name}
                                     </SelectItem>
@@ -2377,76 +4303,78 @@ function App() {
                           </DialogDescription>
                         </DialogHeader>
                         <div className="mt-2 grid grid-cols-2 gap-3 text-xs">
-                          {PLAYER_LABELS.map((label, idx) => (
-                            <div key={idx}>
-                              <Label className="text-xs">{label}</Label>
-                              <div className="relative mt-1 flex items-center">
-                                <Input
-                                  className="h-8 text-xs pr-8"
-                                  value={editNames[idx] ?? ""}
-                                  onChange={(e) => {
-                                    const next = [...editNames];
-                                    next[idx] = e.target.value;
-                                    setEditNames(next);
-                                  }}
-                                  placeholder={label}
-                                />
-                                <Popover
-                                  open={comboboxOpen[idx]}
-                                  onOpenChange={(open) => {
-                                    const next = [...comboboxOpen];
-                                    next[idx] = open;
-                                    setComboboxOpen(next);
-                                  }}
-                                >
-                                  <PopoverTrigger asChild>
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      className="absolute right-0 top-0 h-8 w-8 p-0"
-                                    >
-                                      <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
-                                    </Button>
-                                  </PopoverTrigger>
-                                  <PopoverContent className="w-[200px] p-0">
-                                    <div className="py-1">
-                                      {historicalNames.length > 0 ? (
-                                        <>
-                                          <div className="px-3 py-1.5 text-[11px] font-semibold text-slate-500">
-                                            历史记录
+                          {createDefaultNames(present.points.length).map(
+                            (label, idx) => (
+                              <div key={idx}>
+                                <Label className="text-xs">{label}</Label>
+                                <div className="relative mt-1 flex items-center">
+                                  <Input
+                                    className="h-8 text-xs pr-8"
+                                    value={editNames[idx] ?? ""}
+                                    onChange={(e) => {
+                                      const next = [...editNames];
+                                      next[idx] = e.target.value;
+                                      setEditNames(next);
+                                    }}
+                                    placeholder={label}
+                                  />
+                                  <Popover
+                                    open={comboboxOpen[idx]}
+                                    onOpenChange={(open) => {
+                                      const next = [...comboboxOpen];
+                                      next[idx] = open;
+                                      setComboboxOpen(next);
+                                    }}
+                                  >
+                                    <PopoverTrigger asChild>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="absolute right-0 top-0 h-8 w-8 p-0"
+                                      >
+                                        <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+                                      </Button>
+                                    </PopoverTrigger>
+                                    <PopoverContent className="w-[200px] p-0">
+                                      <div className="py-1">
+                                        {historicalNames.length > 0 ? (
+                                          <>
+                                            <div className="px-3 py-1.5 text-[11px] font-semibold text-slate-500">
+                                              历史记录
+                                            </div>
+                                            {historicalNames.map((name) => (
+                                              <button
+                                                key={name}
+                                                className={
+                                                  "w-full text-left px-3 py-1.5 text-xs hover:bg-slate-100"
+                                                }
+                                                onClick={() => {
+                                                  const next = [...editNames];
+                                                  next[idx] = name;
+                                                  setEditNames(next);
+                                                  const nextOpen = [
+                                                    ...comboboxOpen,
+                                                  ];
+                                                  nextOpen[idx] = false;
+                                                  setComboboxOpen(nextOpen);
+                                                }}
+                                              >
+                                                {name}
+                                              </button>
+                                            ))}
+                                          </>
+                                        ) : (
+                                          <div className="px-3 py-4 text-center text-xs text-slate-500">
+                                            暂无历史记录
                                           </div>
-                                          {historicalNames.map((name) => (
-                                            <button
-                                              key={name}
-                                              className={
-                                                "w-full text-left px-3 py-1.5 text-xs hover:bg-slate-100"
-                                              }
-                                              onClick={() => {
-                                                const next = [...editNames];
-                                                next[idx] = name;
-                                                setEditNames(next);
-                                                const nextOpen = [
-                                                  ...comboboxOpen,
-                                                ];
-                                                nextOpen[idx] = false;
-                                                setComboboxOpen(nextOpen);
-                                              }}
-                                            >
-                                              {name}
-                                            </button>
-                                          ))}
-                                        </>
-                                      ) : (
-                                        <div className="px-3 py-4 text-center text-xs text-slate-500">
-                                          暂无历史记录
-                                        </div>
-                                      )}
-                                    </div>
-                                  </PopoverContent>
-                                </Popover>
+                                        )}
+                                      </div>
+                                    </PopoverContent>
+                                  </Popover>
+                                </div>
                               </div>
-                            </div>
-                          ))}
+                            )
+                          )}
                         </div>
                         <DialogFooter className="mt-4 flex flex-row justify-end gap-2">
                           <Button
@@ -2463,14 +4391,15 @@ function App() {
                             size="sm"
                             className="h-8 px-3 text-xs"
                             onClick={() => {
-                              setState((prev) => ({
-                                past: [...prev.past, prev.present],
-                                present: {
-                                  ...prev.present,
-                                  names: sanitizeNames(editNames),
-                                },
-                                future: [],
-                              }));
+                              setState((prev) =>
+                                appendEvent(prev, {
+                                  type: "names",
+                                  names: sanitizeNames(
+                                    editNames,
+                                    present.points.length
+                                  ),
+                                })
+                              );
                               setEditNamesOpen(false);
                             }}
                           >
@@ -2480,6 +4409,1021 @@ function App() {
                       </DialogContent>
                     </Dialog>
 
+                    <Dialog
+                      open={editRulesOpen}
+                      onOpenChange={setEditRulesOpen}
+                    >
+                      <DialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-8 px-3 text-xs"
+                        >
+                          规则设置
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-h-[85vh] max-w-md overflow-y-auto">
+                        <DialogHeader>
+                          <DialogTitle>规则设置</DialogTitle>
+                          <DialogDescription>
+                            配给原点仅在尚未录入结算或重置游戏时生效；修改立直棒点数后，场上已有的立直棒仍按宣告时的点数计算。
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="mt-2 space-y-4 text-xs">
+                          <div>
+                            <Label className="text-xs">对局长度</Label>
+                            <Select
+                              value={editRules.gameLength}
+                              onValueChange={(v) =>
+                                setEditRules({
+                                  ...editRules,
+                                  gameLength: v as GameLength,
+                                })
+                              }
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(GAME_LENGTH_LABELS).map(
+                                  ([value, label]) => (
+                                    <SelectItem key={value} value={value}>
+                                      {label}
+                                    </SelectItem>
+                                  )
+                                )}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">延长局</Label>
+                              <Select
+                                value={editRules.extension}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    extension: v as GameExtension,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(GAME_EXTENSION_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label className="text-xs">目标点数</Label>
+                              <Input
+                                className="mt-1 h-8 text-xs"
+                                type="number"
+                                min={0}
+                                step={1000}
+                                disabled={editRules.extension === "none"}
+                                value={editRules.targetPoints}
+                                onChange={(e) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    targetPoints: Math.max(
+                                      0,
+                                      Number(e.target.value) || 0
+                                    ),
+                                  })
+                                }
+                              />
+                            </div>
+                          </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">击飞</Label>
+                              <Select
+                                value={editRules.bustRule}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    bustRule: v as BustRule,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(BUST_RULE_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label className="text-xs">击飞奖励</Label>
+                              <Input
+                                className="mt-1 h-8 text-xs"
+                                type="number"
+                                min={0}
+                                step={1000}
+                                disabled={editRules.bustRule === "none"}
+                                value={editRules.bustBonus}
+                                onChange={(e) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    bustBonus: Math.max(
+                                      0,
+                                      Number(e.target.value) || 0
+                                    ),
+                                  })
+                                }
+                              />
+                            </div>
+                          </div>
+                          {editRules.bustRule !== "none" && (
+                            <div className="text-[11px] text-slate-500">
+                              击飞奖励归本局由被击飞者支付点数的和牌者；一炮多响时由这些和牌者均分（以
+                              100 点为单位，余数归距离放铳者最近的和牌者）。
+                            </div>
+                          )}
+                          <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                            <Checkbox
+                              checked={editRules.bustKyotaku}
+                              disabled={editRules.bustRule === "none"}
+                              onCheckedChange={(v) =>
+                                setEditRules({
+                                  ...editRules,
+                                  bustKyotaku: Boolean(v),
+                                })
+                              }
+                            />
+                            <span>
+                              击飞终局时按终局规则处理场上剩余立直棒（否则作废）
+                            </span>
+                          </label>
+                          <div>
+                            <Label className="text-xs">
+                              All Last 和了止 / 听牌止
+                            </Label>
+                            <Select
+                              value={editRules.allLastStop}
+                              onValueChange={(v) =>
+                                setEditRules({
+                                  ...editRules,
+                                  allLastStop: v as AllLastStopRule,
+                                })
+                              }
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(ALL_LAST_STOP_LABELS).map(
+                                  ([value, label]) => (
+                                    <SelectItem key={value} value={value}>
+                                      {label}
+                                    </SelectItem>
+                                  )
+                                )}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">一炮多响</Label>
+                              <Select
+                                value={editRules.multiRon}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    multiRon: v as MultiRonRule,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(MULTI_RON_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label className="text-xs">三家和了</Label>
+                              <Select
+                                value={editRules.tripleRon}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    tripleRon: v as TripleRonRule,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(TRIPLE_RON_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">荒牌流局连庄</Label>
+                              <Select
+                                value={editRules.drawRenchan}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    drawRenchan: v as DrawRenchanRule,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(DRAW_RENCHAN_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label className="text-xs">
+                                连庄上限（0 为不限，八连庄为 8）
+                              </Label>
+                              <Input
+                                className="mt-1 h-8 text-xs"
+                                type="number"
+                                min={0}
+                                value={editRules.renchanLimit}
+                                onChange={(e) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    renchanLimit: Math.max(
+                                      0,
+                                      Math.floor(Number(e.target.value) || 0)
+                                    ),
+                                  })
+                                }
+                              />
+                            </div>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.dealerWinHonba}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    dealerWinHonba: Boolean(v),
+                                  })
+                                }
+                              />
+                              <span>庄家和了连庄时累加本场</span>
+                            </label>
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.drawRotateHonba}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    drawRotateHonba: Boolean(v),
+                                  })
+                                }
+                              />
+                              <span>流局轮庄时累加本场</span>
+                            </label>
+                          </div>
+                          <div>
+                            <div className="mb-1 text-[11px] font-medium text-slate-600">
+                              途中流局后庄家连庄（未勾选则轮庄）
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                              {(
+                                Object.entries(ABORTIVE_DRAW_LABELS) as [
+                                  AbortiveDrawReason,
+                                  string
+                                ][]
+                              ).map(([reason, label]) => (
+                                <label
+                                  key={reason}
+                                  className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700"
+                                >
+                                  <Checkbox
+                                    checked={editRules.abortiveRenchan[reason]}
+                                    onCheckedChange={(v) =>
+                                      setEditRules({
+                                        ...editRules,
+                                        abortiveRenchan: {
+                                          ...editRules.abortiveRenchan,
+                                          [reason]: Boolean(v),
+                                        },
+                                      })
+                                    }
+                                  />
+                                  <span>{label}</span>
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">错和罚则</Label>
+                              <Select
+                                value={editRules.chomboRule}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    chomboRule: v as ChomboRule,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(CHOMBO_RULE_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            {editRules.chomboRule === "points" && (
+                              <div>
+                                <Label className="text-xs">罚符点数</Label>
+                                <Input
+                                  className="mt-1 h-8 text-xs"
+                                  type="number"
+                                  min={0}
+                                  step={300}
+                                  value={editRules.chomboPoints}
+                                  onChange={(e) =>
+                                    setEditRules({
+                                      ...editRules,
+                                      chomboPoints: Math.max(
+                                        0,
+                                        Number(e.target.value) || 0
+                                      ),
+                                    })
+                                  }
+                                />
+                              </div>
+                            )}
+                            {editRules.chomboRule === "uma" && (
+                              <div>
+                                <Label className="text-xs">成绩扣分</Label>
+                                <Input
+                                  className="mt-1 h-8 text-xs"
+                                  type="number"
+                                  min={0}
+                                  value={editRules.chomboUma}
+                                  onChange={(e) =>
+                                    setEditRules({
+                                      ...editRules,
+                                      chomboUma: Math.max(
+                                        0,
+                                        Number(e.target.value) || 0
+                                      ),
+                                    })
+                                  }
+                                />
+                              </div>
+                            )}
+                          </div>
+                          <div className="space-y-2">
+                            <div className="text-[11px] font-medium text-slate-600">
+                              点棒
+                            </div>
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.kiriageMangan}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    kiriageMangan: Boolean(v),
+                                  })
+                                }
+                              />
+                              <span>
+                                切上满贯（4 番 30 符、3 番 60 符视为满贯）
+                              </span>
+                            </label>
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.notenPayments}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    notenPayments: Boolean(v),
+                                  })
+                                }
+                              />
+                              <span>荒牌流局计算未听牌罚符</span>
+                            </label>
+                            <div className="grid grid-cols-3 gap-3">
+                              <div>
+                                <Label className="text-xs">每本场点数</Label>
+                                <Input
+                                  className="mt-1 h-8 text-xs"
+                                  type="number"
+                                  min={0}
+                                  step={100}
+                                  value={editRules.honbaValue}
+                                  onChange={(e) =>
+                                    setEditRules({
+                                      ...editRules,
+                                      honbaValue: Math.max(
+                                        0,
+                                        Number(e.target.value) || 0
+                                      ),
+                                    })
+                                  }
+                                />
+                              </div>
+                              <div>
+                                <Label className="text-xs">立直棒点数</Label>
+                                <Input
+                                  className="mt-1 h-8 text-xs"
+                                  type="number"
+                                  min={0}
+                                  step={1000}
+                                  value={editRules.riichiStickValue}
+                                  onChange={(e) =>
+                                    setEditRules({
+                                      ...editRules,
+                                      riichiStickValue: Math.max(
+                                        0,
+                                        Number(e.target.value) || 0
+                                      ),
+                                    })
+                                  }
+                                />
+                              </div>
+                              <div>
+                                <Label className="text-xs">罚符总额</Label>
+                                <Input
+                                  className="mt-1 h-8 text-xs"
+                                  type="number"
+                                  min={0}
+                                  step={1000}
+                                  value={editRules.notenBappu}
+                                  onChange={(e) =>
+                                    setEditRules({
+                                      ...editRules,
+                                      notenBappu: Math.max(
+                                        0,
+                                        Number(e.target.value) || 0
+                                      ),
+                                    })
+                                  }
+                                />
+                              </div>
+                            </div>
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.riichiWithoutStick}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    riichiWithoutStick: Boolean(v),
+                                  })
+                                }
+                              />
+                              点数不足一根立直棒时允许立直
+                            </label>
+                          </div>
+                          <div className="space-y-2">
+                            <div className="text-[11px] font-medium text-slate-600">
+                              手牌分析
+                            </div>
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.kuitan}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    kuitan: Boolean(v),
+                                  })
+                                }
+                              />
+                              <span>食断（副露后断幺九成立）</span>
+                            </label>
+                            <div>
+                              <Label className="text-xs">连风雀头符数</Label>
+                              <Select
+                                value={String(editRules.doubleWindPairFu)}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    doubleWindPairFu: Number(v),
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="2">2 符</SelectItem>
+                                  <SelectItem value="4">4 符</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                          <div className="space-y-2">
+                            <div className="text-[11px] font-medium text-slate-600">
+                              役满
+                            </div>
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.kazoeYakuman}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    kazoeYakuman: Boolean(v),
+                                  })
+                                }
+                              />
+                              <span>
+                                累计役满（13 番以上视为役满，否则为三倍满）
+                              </span>
+                            </label>
+                            <div className="grid grid-cols-2 items-end gap-3">
+                              <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                                <Checkbox
+                                  checked={editRules.yakumanStacking}
+                                  onCheckedChange={(v) =>
+                                    setEditRules({
+                                      ...editRules,
+                                      yakumanStacking: Boolean(v),
+                                    })
+                                  }
+                                />
+                                <span>多倍役满叠加</span>
+                              </label>
+                              <div>
+                                <Label className="text-xs">最高倍数</Label>
+                                <Input
+                                  className="mt-1 h-8 text-xs"
+                                  type="number"
+                                  min={1}
+                                  max={6}
+                                  disabled={!editRules.yakumanStacking}
+                                  value={editRules.maxYakumanMultiple}
+                                  onChange={(e) =>
+                                    setEditRules({
+                                      ...editRules,
+                                      maxYakumanMultiple: Math.min(
+                                        6,
+                                        Math.max(1, Number(e.target.value) || 1)
+                                      ),
+                                    })
+                                  }
+                                />
+                              </div>
+                            </div>
+                          </div>
+                          <div className="space-y-2">
+                            <div className="text-[11px] font-medium text-slate-600">
+                              流局满贯
+                            </div>
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.nagashiNotenPayments}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    nagashiNotenPayments: Boolean(v),
+                                  })
+                                }
+                              />
+                              <span>同时计算未听牌罚符</span>
+                            </label>
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.nagashiHonba}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    nagashiHonba: Boolean(v),
+                                  })
+                                }
+                              />
+                              <span>收取本场棒</span>
+                            </label>
+                            <label className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50/60 px-2 py-1.5 text-xs text-slate-700">
+                              <Checkbox
+                                checked={editRules.nagashiKyotaku}
+                                onCheckedChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    nagashiKyotaku: Boolean(v),
+                                  })
+                                }
+                              />
+                              <span>收取场上立直棒</span>
+                            </label>
+                          </div>
+                          <div>
+                            <Label className="text-xs">包牌</Label>
+                            <Select
+                              value={editRules.paoRule}
+                              onValueChange={(v) =>
+                                setEditRules({
+                                  ...editRules,
+                                  paoRule: v as PaoRule,
+                                })
+                              }
+                            >
+                              <SelectTrigger className="mt-1 h-8 text-xs span-ellipsis">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(PAO_RULE_LABELS).map(
+                                  ([value, label]) => (
+                                    <SelectItem key={value} value={value}>
+                                      {label}
+                                    </SelectItem>
+                                  )
+                                )}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">对局人数</Label>
+                              <Select
+                                value={String(getSeatCount(editRules))}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    ...PLAYER_COUNT_PRESETS[Number(v) as 3 | 4],
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(PLAYER_COUNT_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            {getSeatCount(editRules) === 3 && (
+                              <div>
+                                <Label className="text-xs">三麻自摸</Label>
+                                <Select
+                                  value={editRules.sanmaTsumo}
+                                  onValueChange={(v) =>
+                                    setEditRules({
+                                      ...editRules,
+                                      sanmaTsumo: v as SanmaTsumoRule,
+                                    })
+                                  }
+                                >
+                                  <SelectTrigger className="mt-1 h-8 text-xs">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {Object.entries(SANMA_TSUMO_LABELS).map(
+                                      ([value, label]) => (
+                                        <SelectItem key={value} value={value}>
+                                          {label}
+                                        </SelectItem>
+                                      )
+                                    )}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                          </div>
+                          {getSeatCount(editRules) !==
+                            present.points.length && (
+                            <div className="text-[11px] font-medium text-rose-600">
+                              更改对局人数后将重新开始对局，已有的记录会被清除
+                            </div>
+                          )}
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">配给原点</Label>
+                              <Input
+                                className="mt-1 h-8 text-xs"
+                                type="number"
+                                min={0}
+                                step={1000}
+                                value={editRules.startingPoints}
+                                onChange={(e) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    startingPoints: Math.max(
+                                      0,
+                                      Number(e.target.value) || 0
+                                    ),
+                                  })
+                                }
+                              />
+                            </div>
+                            <div>
+                              <Label className="text-xs">返点</Label>
+                              <Input
+                                className="mt-1 h-8 text-xs"
+                                type="number"
+                                min={0}
+                                step={1000}
+                                value={editRules.returnPoints}
+                                onChange={(e) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    returnPoints: Math.max(
+                                      0,
+                                      Number(e.target.value) || 0
+                                    ),
+                                  })
+                                }
+                              />
+                            </div>
+                          </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">
+                                头名奖励（千点）
+                              </Label>
+                              <Input
+                                className="mt-1 h-8 text-xs"
+                                type="number"
+                                value={editRules.oka}
+                                onChange={(e) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    oka: Number(e.target.value) || 0,
+                                  })
+                                }
+                              />
+                            </div>
+                            <div>
+                              <Label className="text-xs">终局取整</Label>
+                              <Select
+                                value={editRules.finalRounding}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    finalRounding: v as FinalRounding,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(FINAL_ROUNDING_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label className="text-xs">顺位马</Label>
+                              <Select
+                                value={editRules.umaPreset}
+                                onValueChange={(v) => {
+                                  const preset = v as UmaPreset;
+                                  const definition =
+                                    preset === "custom"
+                                      ? undefined
+                                      : UMA_PRESETS[preset];
+                                  setEditRules({
+                                    ...editRules,
+                                    umaPreset: preset,
+                                    returnPoints:
+                                      definition?.returnPoints ??
+                                      editRules.returnPoints,
+                                    oka: definition?.oka ?? editRules.oka,
+                                  });
+                                }}
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {getUmaPresets(editRules).map(
+                                    ([value, preset]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {preset.label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                  <SelectItem value="custom">自定义</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label className="text-xs">同分处理</Label>
+                              <Select
+                                value={editRules.rankTieRule}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    rankTieRule: v as RankTieRule,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(RANK_TIE_RULE_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label className="text-xs">终局剩余供托</Label>
+                              <Select
+                                value={editRules.endKyotaku}
+                                onValueChange={(v) =>
+                                  setEditRules({
+                                    ...editRules,
+                                    endKyotaku: v as EndKyotakuRule,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="mt-1 h-8 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(END_KYOTAKU_LABELS).map(
+                                    ([value, label]) => (
+                                      <SelectItem key={value} value={value}>
+                                        {label}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                          {editRules.umaPreset === "custom" && (
+                            <div
+                              className={`grid gap-2 ${
+                                getSeatCount(editRules) === 3
+                                  ? "grid-cols-3"
+                                  : "grid-cols-4"
+                              }`}
+                            >
+                              {resolveUma(editRules).map((value, idx) => (
+                                <div key={RANK_LABELS[idx]}>
+                                  <Label className="text-xs">
+                                    {RANK_LABELS[idx]}
+                                  </Label>
+                                  <Input
+                                    className="mt-1 h-8 text-xs"
+                                    type="number"
+                                    value={value}
+                                    onChange={(e) => {
+                                      const key =
+                                        getSeatCount(editRules) === 3
+                                          ? "customSanmaUma"
+                                          : "customUma";
+                                      const next = [...editRules[key]];
+                                      next[idx] = Number(e.target.value) || 0;
+                                      setEditRules({
+                                        ...editRules,
+                                        [key]: next,
+                                      });
+                                    }}
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <DialogFooter className="mt-4 flex flex-row justify-end gap-2">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-8 px-3 text-xs"
+                            onClick={() => setEditRulesOpen(false)}
+                          >
+                            取消
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            className="h-8 px-3 text-xs"
+                            onClick={handleEditRulesConfirm}
+                          >
+                            保存规则
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+
+                    <AlertDialog
+                      open={seatChangeOpen}
+                      onOpenChange={setSeatChangeOpen}
+                    >
+                      <AlertDialogContent className="max-w-sm">
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>
+                            切换为{PLAYER_COUNT_LABELS[getSeatCount(editRules)]}
+                            并重新开始？
+                          </AlertDialogTitle>
+                          <AlertDialogDescription>
+                            当前对局的点数、场次、本场数、立直供托与全部历史记录将被清除，且无法撤销；只保留昵称。
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter className="mt-4">
+                          <AlertDialogCancel className="h-8 px-3 text-xs">
+                            取消
+                          </AlertDialogCancel>
+                          <AlertDialogAction
+                            className="h-8 px-3 text-xs bg-rose-500 hover:bg-rose-600"
+                            onClick={applyEditRules}
+                          >
+                            清除记录并重新开始
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+
+                    <AlertDialog
+                      open={dealerStopOpen}
+                      onOpenChange={setDealerStopOpen}
+                    >
+                      <AlertDialogContent className="max-w-sm">
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>
+                            庄家是否终止对局？
+                          </AlertDialogTitle>
+                          <AlertDialogDescription>
+                            All Last 庄家 {present.names[present.dealerIndex]}{" "}
+                            位列一位，可选择和了止 /
+                            听牌止直接终局，或继续连庄。
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter className="mt-4">
+                          <AlertDialogCancel className="h-8 px-3 text-xs">
+                            继续连庄
+                          </AlertDialogCancel>
+                          <AlertDialogAction
+                            className="h-8 px-3 text-xs"
+                            onClick={handleDealerStop}
+                          >
+                            终止对局
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+
                     <AlertDialog
                       open={resetDialogOpen}
                       onOpenChange={setResetDialogOpen}
@@ -2551,7 +5495,10 @@ function App() {
                             <DialogHeader>
                               <DialogTitle>终局结算</DialogTitle>
                               <DialogDescription className="whitespace-normal lg:whitespace-nowrap">
-                                第一名+35，第二名+15，第三名-5，第四名-45
+                                {formatUmaDescription(resolveUma(state.rules))}
+                                ；返点 {formatPoints(state.rules.returnPoints)}
+                                {state.rules.oka !== 0 &&
+                                  `，头名奖励 ${formatDiff(state.rules.oka)}`}
                               </DialogDescription>
                             </DialogHeader>
                             <div className="pt-4 pb-2">
@@ -2575,7 +5522,8 @@ function App() {
                                       className={`${
                                         player.rank === 1
                                           ? "bg-emerald-50/50"
-                                          : player.rank === 4
+                                          : player.rank ===
+                                            present.points.length
                                           ? "bg-rose-50/50"
                                           : ""
                                       }`}
@@ -2605,12 +5553,14 @@ function App() {
                               <Button
                                 size="sm"
                                 className="h-8 px-3 text-xs"
-                                onClick={handleDistributeKyotaku}
+                                onClick={() => handleDistributeKyotaku(true)}
                                 disabled={
-                                  state.present.kyotaku === 0 || isGameFinished
+                                  present.kyotaku === 0 || isGameFinished
                                 }
                               >
-                                分配剩余立直供托
+                                {state.rules.endKyotaku === "forfeit"
+                                  ? "作废剩余立直供托"
+                                  : "分配剩余立直供托"}
                               </Button>
                               <Button
                                 variant="outline"
@@ -2629,12 +5579,12 @@ function App() {
                           <div className="hidden lg:block">
                             <div className="max-h-[80vh] overflow-y-auto pr-2 text-xs">
                               <div className="flex flex-wrap gap-2">
-                                {state.present.history.length < 1 && (
+                                {present.history.length < 1 && (
                                   <div className="text-slate-400">
                                     没有历史结算记录。
                                   </div>
                                 )}
-                                {state.present.history.map((h) => (
+                                {present.history.map((h) => (
                                   <div
                                     key={h.id}
                                     className="flex flex-grow rounded-lg border border-slate-200 bg-white/70 p-3"
@@ -2653,7 +5603,7 @@ function App() {
                                           className="rounded-md bg-slate-50/80 px-2 py-1"
                                         >
                                           <div className="truncate text-[11px] text-slate-600">
-                                            {state.present.names[i]}
+                                            {present.names[i]}
                                           </div>
                                           <div
                                             className={`text-[11px] font-semibold tabular-nums ${
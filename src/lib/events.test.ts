@@ -0,0 +1,256 @@
+import { describe, expect, it } from "vitest";
+import {
+  appendEvent,
+  changeRules,
+  getPointTotals,
+  getPresent,
+  previewAmendment,
+  undo,
+  type NewGameEvent,
+} from "@/lib/events";
+import { applyKyotakuDistribution } from "@/lib/history";
+import { DEFAULT_RULES, type RuleSet } from "@/lib/rules";
+import type { SettlementInput } from "@/lib/scoring";
+import type { GameState } from "@/lib/types";
+
+function createGame(rules: RuleSet = DEFAULT_RULES): GameState {
+  return {
+    initial: {
+      points: [25000, 25000, 25000, 25000],
+      kyotaku: 0,
+      honba: 0,
+      kyokuIndex: 0,
+      dealerIndex: 0,
+      history: [],
+      names: ["甲", "乙", "丙", "丁"],
+    },
+    initialRules: rules,
+    events: [],
+    head: 0,
+    rules,
+  };
+}
+
+// 东家荣和南家 1 番 30 符（1500 点）
+const DEALER_RON: NewGameEvent = {
+  type: "settlement",
+  input: {
+    type: "ron",
+    loser: 1,
+    winners: [{ winner: 0, han: 1, fu: 30 }],
+    riichi: [false, false, false, false],
+  },
+};
+
+function play(state: GameState, events: NewGameEvent[]): GameState {
+  return events.reduce(appendEvent, state);
+}
+
+describe("规则修改事件", () => {
+  it("之前的结算保持原规则，之后的结算按新规则计算", () => {
+    let state = play(createGame(), [DEALER_RON]);
+    state = changeRules(state, { ...DEFAULT_RULES, honbaValue: 500 });
+    state = appendEvent(state, DEALER_RON);
+    const [latest, first] = getPresent(state).history;
+    expect(first.deltas).toEqual([1500, -1500, 0, 0]);
+    expect(latest.deltas).toEqual([2000, -2000, 0, 0]);
+  });
+
+  it("规则相同时不记录事件", () => {
+    const state = play(createGame(), [DEALER_RON]);
+    expect(changeRules(state, { ...DEFAULT_RULES })).toBe(state);
+  });
+
+  it("撤销到修改规则之前再录入时补记当前规则", () => {
+    let state = play(createGame(), [DEALER_RON]);
+    state = changeRules(state, { ...DEFAULT_RULES, honbaValue: 500 });
+    state = appendEvent(undo(state), DEALER_RON);
+    expect(state.events.map((event) => event.type)).toEqual([
+      "rules",
+      "settlement",
+    ]);
+    expect(getPresent(state).history[0].deltas).toEqual([1500, -1500, 0, 0]);
+  });
+});
+
+describe("终局立直供托", () => {
+  const RIICHI: NewGameEvent = { type: "riichi", seat: 1 };
+  const ABORTIVE: NewGameEvent = {
+    type: "settlement",
+    input: {
+      type: "abortive",
+      reason: "kyuushu",
+      riichi: [false, true, false, false],
+    },
+  };
+
+  it("对局未结束时不分配", () => {
+    const before = getPresent(play(createGame(), [RIICHI, ABORTIVE]));
+    const after = getPresent(
+      play(createGame(), [RIICHI, ABORTIVE, { type: "kyotaku" }])
+    );
+    expect(after.points).toEqual(before.points);
+    expect(after.kyotaku).toBe(1);
+    expect(after.history).toHaveLength(before.history.length);
+    expect(applyKyotakuDistribution(before, DEFAULT_RULES)).toBeNull();
+  });
+
+  it("手动分配时终止对局并交给一位", () => {
+    const present = getPresent(
+      play(createGame(), [RIICHI, ABORTIVE, { type: "kyotaku", endGame: true }])
+    );
+    expect(present.finished).toBe(true);
+    expect(present.kyotaku).toBe(0);
+    expect(present.points.reduce((sum, p) => sum + p, 0)).toBe(100000);
+  });
+});
+
+describe("总点数校验", () => {
+  const RIICHI: NewGameEvent = { type: "riichi", seat: 1 };
+  const DRAW: NewGameEvent = {
+    type: "settlement",
+    input: {
+      type: "draw",
+      tenpai: [true, true, true, true],
+      riichi: [false, true, false, false],
+    },
+  };
+
+  function expectBalanced(state: GameState) {
+    const { total, expected } = getPointTotals(state);
+    expect(total).toBe(expected);
+  }
+
+  it("终局作废立直供托后仍然相符", () => {
+    const rules: RuleSet = { ...DEFAULT_RULES, endKyotaku: "forfeit" };
+    const state = play(createGame(rules), [
+      RIICHI,
+      DRAW,
+      { type: "kyotaku", endGame: true },
+    ]);
+    expect(getPointTotals(state).total).toBe(99000);
+    expectBalanced(state);
+  });
+
+  it("击飞终局作废立直供托后仍然相符", () => {
+    const rules: RuleSet = {
+      ...DEFAULT_RULES,
+      bustRule: "below-zero",
+      bustKyotaku: false,
+    };
+    const state = play(createGame(rules), [
+      {
+        type: "settlement",
+        input: {
+          type: "adjustment",
+          deltas: [24500, 0, 0, -24500],
+          reason: "测试",
+        },
+      },
+      RIICHI,
+      {
+        type: "settlement",
+        input: {
+          type: "draw",
+          tenpai: [true, true, true, false],
+          riichi: [false, true, false, false],
+        },
+      },
+    ]);
+    const present = getPresent(state);
+    expect(present.finished).toBe(true);
+    expect(present.forfeitedPoints).toBe(1000);
+    expectBalanced(state);
+  });
+
+  it("对局中修改配给原点后仍然相符", () => {
+    let state = play(createGame(), [DEALER_RON]);
+    state = changeRules(state, { ...DEFAULT_RULES, startingPoints: 30000 });
+    expectBalanced(state);
+  });
+
+  it("场上有立直棒时修改立直棒点数，之前的立直棒按原点数计算", () => {
+    let state = play(createGame(), [RIICHI, DRAW]);
+    state = changeRules(state, { ...DEFAULT_RULES, riichiStickValue: 2000 });
+    state = play(state, [{ type: "riichi", seat: 2 }]);
+    expectBalanced(state);
+    state = appendEvent(state, {
+      type: "settlement",
+      input: {
+        type: "ron",
+        loser: 1,
+        winners: [{ winner: 0, han: 1, fu: 30 }],
+        riichi: [false, false, true, false],
+      },
+    });
+    // 荣和 1500 + 1 本场 300 + 之前的立直棒 1000 + 本局的立直棒 2000
+    expect(getPresent(state).history[0].deltas).toEqual([
+      4800, -1800, -2000, 0,
+    ]);
+    expectBalanced(state);
+  });
+});
+
+describe("修改历史记录", () => {
+  const YAKU = [{ name: "立直", han: 1 }];
+
+  function amend(state: GameState, input: SettlementInput) {
+    const id = getPresent(state).history[0].id;
+    const preview = previewAmendment(state, id, input);
+    if ("error" in preview) throw new Error(preview.error);
+    return appendEvent(state, preview.event);
+  }
+
+  it("和牌者不变时保留录入的役种", () => {
+    const state = appendEvent(createGame(), {
+      type: "settlement",
+      input: {
+        type: "ron",
+        loser: 1,
+        winners: [{ winner: 0, han: 1, fu: 30 }],
+        riichi: [false, false, false, false],
+      },
+      winnerYaku: [{ winner: 0, yaku: YAKU }],
+    });
+    const amended = amend(state, {
+      type: "ron",
+      loser: 1,
+      winners: [{ winner: 0, han: 2, fu: 30 }],
+      riichi: [false, false, false, false],
+    });
+    const [entry] = getPresent(amended).history;
+    expect(entry.deltas).toEqual([2900, -2900, 0, 0]);
+    expect(entry.winnerYaku).toEqual([{ player: "甲", yaku: YAKU }]);
+  });
+
+  it("一炮双响只保留仍然和牌者的役种", () => {
+    const state = appendEvent(createGame(), {
+      type: "settlement",
+      input: {
+        type: "ron",
+        loser: 1,
+        winners: [
+          { winner: 2, han: 1, fu: 30 },
+          { winner: 3, han: 1, fu: 30 },
+        ],
+        riichi: [false, false, false, false],
+      },
+      winnerYaku: [
+        { winner: 2, yaku: YAKU },
+        { winner: 3, yaku: YAKU },
+      ],
+    });
+    const amended = amend(state, {
+      type: "ron",
+      loser: 1,
+      winners: [
+        { winner: 2, han: 2, fu: 30 },
+        { winner: 0, han: 1, fu: 30 },
+      ],
+      riichi: [false, false, false, false],
+    });
+    const [entry] = getPresent(amended).history;
+    expect(entry.deltas).toEqual([1500, -3500, 2000, 0]);
+    expect(entry.winnerYaku).toEqual([{ player: "丙", yaku: YAKU }]);
+  });
+});
@@ -0,0 +1,483 @@
+import {
+  applyDealerStop,
+  applyKyotakuDistribution,
+  applySettlement,
+  type EntryIdentity,
+  type WinnerYaku,
+} from "@/lib/history";
+import { declareRiichi, getKyotakuPoints, getRiichiError } from "@/lib/riichi";
+import { getRoundInfo } from "@/lib/round";
+import type { RuleSet } from "@/lib/rules";
+import type { SettlementInput } from "@/lib/scoring";
+import type { CoreSnapshot, GameState, SeatIndex } from "@/lib/types";
+
+// 一次结算（包括手动调整），事件编号即生成的历史记录编号
+interface SettlementEvent extends EntryIdentity {
+  type: "settlement";
+  input: SettlementInput;
+  // 按役种录入时的和牌者与役种
+  winnerYaku?: WinnerYaku[];
+}
+
+// 宣告立直
+interface RiichiEvent extends EntryIdentity {
+  type: "riichi";
+  seat: SeatIndex;
+}
+
+// 终局时分配（或作废）场上剩余的立直供托
+interface KyotakuEvent extends EntryIdentity {
+  type: "kyotaku";
+  // 对局未结束时在结算面板中手动分配，同时终止对局
+  endGame?: boolean;
+}
+
+// All Last 庄家在上一次结算后选择终止对局
+interface DealerStopEvent extends EntryIdentity {
+  type: "dealer-stop";
+}
+
+// 手动编辑场况
+interface RoundEditEvent extends EntryIdentity {
+  type: "round";
+  kyokuIndex: number;
+  dealerIndex: SeatIndex;
+  honba: number;
+}
+
+// 修改昵称
+interface NamesEvent extends EntryIdentity {
+  type: "names";
+  names: string[];
+}
+
+// 对局中修改规则，只影响之后的事件
+interface RulesEvent extends EntryIdentity {
+  type: "rules";
+  rules: RuleSet;
+}
+
+// 修改之前的一次结算，input 为 null 时删除该结算或立直供托分配
+interface AmendEvent extends EntryIdentity {
+  type: "amend";
+  target: string;
+  input: SettlementInput | null;
+}
+
+export type GameEvent =
+  | SettlementEvent
+  | RiichiEvent
+  | KyotakuEvent
+  | DealerStopEvent
+  | RoundEditEvent
+  | NamesEvent
+  | RulesEvent
+  | AmendEvent;
+
+type WithoutIdentity<E> = E extends GameEvent
+  ? Omit<E, keyof EntryIdentity>
+  : never;
+
+// 新录入的事件，编号与录入时间在追加时生成
+export type NewGameEvent = WithoutIdentity<GameEvent>;
+
+// 套用修改后实际重放的事件
+type ReplayEvent = Exclude<GameEvent, AmendEvent>;
+
+// 撤销 / 重做的单位；编辑场况、修改规则与庄家终止对局随之前的一步一起撤销
+const UNDO_STEP_TYPES: GameEvent["type"][] = [
+  "settlement",
+  "riichi",
+  "kyotaku",
+  "names",
+  "amend",
+];
+
+// 每重放多少个事件缓存一次状态
+const CHECKPOINT_INTERVAL = 20;
+
+export interface ReplayState {
+  snapshot: CoreSnapshot;
+  // 上一个事件是允许庄家终止对局的结算
+  dealerMayStop: boolean;
+  // 重放到此处时生效的规则
+  rules: RuleSet;
+}
+
+interface ReplayCache {
+  // 开局时的规则
+  rules: RuleSet;
+  events: ReplayEvent[];
+  // 按已重放的事件数缓存的状态
+  checkpoints: Map<number, ReplayState>;
+  // 最近一次重放的结果
+  latest?: { count: number; state: ReplayState };
+}
+
+// 按初始快照缓存重放结果，重新开局后旧缓存随初始快照一起释放
+const replayCaches = new WeakMap<CoreSnapshot, ReplayCache>();
+
+// 同一次修改套用后的结算事件，保证重复重放时事件不变、缓存可以命中
+const amendedEvents = new WeakMap<AmendEvent, SettlementEvent>();
+
+function isUndoStep(event: GameEvent): boolean {
+  return UNDO_STEP_TYPES.includes(event.type);
+}
+
+function isSameRules(a: RuleSet, b: RuleSet): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+// 结算输入中的和牌者（流局满贯不计）
+function getInputWinners(input: SettlementInput): SeatIndex[] {
+  if (input.type === "tsumo") return [input.winner];
+  if (input.type === "ron") return input.winners.map((w) => w.winner);
+  return [];
+}
+
+/**
+ * 修改结算后仍以同一方式和牌的玩家保留录入的役种
+ */
+function keepWinnerYaku(
+  event: SettlementEvent,
+  input: SettlementInput
+): WinnerYaku[] | undefined {
+  if (event.input.type !== input.type) return undefined;
+  const winners = getInputWinners(input);
+  const kept = event.winnerYaku?.filter((w) => winners.includes(w.winner));
+  return kept && kept.length > 0 ? kept : undefined;
+}
+
+/**
+ * 套用修改事件：被修改的结算换用新的输入，被删除的记录跳过
+ * 同一条记录被多次修改时以最后一次为准
+ */
+function resolveEvents(events: GameEvent[]): ReplayEvent[] {
+  const amendments = new Map<string, AmendEvent>();
+  events.forEach((event) => {
+    if (event.type === "amend") amendments.set(event.target, event);
+  });
+  return events.flatMap((event): ReplayEvent[] => {
+    if (event.type === "amend") return [];
+    const amendment = amendments.get(event.id);
+    if (!amendment) return [event];
+    if (!amendment.input) return [];
+    if (event.type !== "settlement") return [event];
+    let amended = amendedEvents.get(amendment);
+    if (!amended) {
+      amended = {
+        ...event,
+        input: amendment.input,
+        winnerYaku: keepWinnerYaku(event, amendment.input),
+      };
+      amendedEvents.set(amendment, amended);
+    }
+    return [amended];
+  });
+}
+
+/**
+ * 在快照上应用一个事件，按重放到此处时生效的规则计算
+ * 重算后已不成立的立直宣告与终止对局会被跳过
+ * 提供 warnings 时记录在对局结束后仍有结算的情况
+ */
+function applyEvent(
+  state: ReplayState,
+  event: ReplayEvent,
+  warnings?: string[]
+): ReplayState {
+  const { snapshot, rules } = state;
+  switch (event.type) {
+    case "settlement": {
+      if (warnings && snapshot.finished && event.input.type !== "adjustment") {
+        warnings.push(
+          `重算后对局在 ${
+            getRoundInfo(snapshot, rules).label
+          } 之前已结束，之后的记录仍按原输入重算`
+        );
+      }
+      const { present, result } = applySettlement(
+        snapshot,
+        event.input,
+        rules,
+        event.winnerYaku,
+        event
+      );
+      return {
+        ...state,
+        snapshot: present,
+        dealerMayStop: result.dealerMayStop,
+      };
+    }
+    case "riichi":
+      if (snapshot.finished || getRiichiError(snapshot, event.seat, rules)) {
+        return { ...state, dealerMayStop: false };
+      }
+      return {
+        ...state,
+        snapshot: declareRiichi(snapshot, event.seat, rules),
+        dealerMayStop: false,
+      };
+    case "kyotaku": {
+      // 之前的记录被修改后对局可能不再结束，此时不在对局中途分配
+      const base = event.endGame ? { ...snapshot, finished: true } : snapshot;
+      if (!base.finished) return { ...state, dealerMayStop: false };
+      return {
+        ...state,
+        snapshot: applyKyotakuDistribution(base, rules, event) ?? base,
+        dealerMayStop: false,
+      };
+    }
+    case "dealer-stop":
+      return {
+        ...state,
+        snapshot: state.dealerMayStop ? applyDealerStop(snapshot) : snapshot,
+        dealerMayStop: false,
+      };
+    case "round":
+      return {
+        ...state,
+        snapshot: {
+          ...snapshot,
+          honba: Math.max(0, event.honba),
+          kyokuIndex: event.kyokuIndex,
+          dealerIndex: event.dealerIndex,
+          // 更换庄家或局数后重新计算连庄次数
+          renchan:
+            event.kyokuIndex === snapshot.kyokuIndex &&
+            event.dealerIndex === snapshot.dealerIndex
+              ? snapshot.renchan
+              : 0,
+          finished: false,
+        },
+        dealerMayStop: false,
+      };
+    case "names":
+      return { ...state, snapshot: { ...snapshot, names: event.names } };
+    case "rules":
+      return { ...state, rules: event.rules };
+  }
+}
+
+/**
+ * 从初始快照依次重放事件，从最近的缓存状态继续
+ * 事件序列与上次重放的共同前缀之后的缓存会被丢弃
+ */
+function replay(
+  initial: CoreSnapshot,
+  events: ReplayEvent[],
+  rules: RuleSet
+): ReplayState {
+  let cache = replayCaches.get(initial);
+  if (!cache || cache.rules !== rules) {
+    cache = { rules, events, checkpoints: new Map() };
+    replayCaches.set(initial, cache);
+  }
+
+  let common = 0;
+  while (common < events.length && events[common] === cache.events[common]) {
+    common++;
+  }
+
+  let start = {
+    count: 0,
+    state: { snapshot: initial, dealerMayStop: false, rules } as ReplayState,
+  };
+  for (
+    let count = common - (common % CHECKPOINT_INTERVAL);
+    count > 0;
+    count -= CHECKPOINT_INTERVAL
+  ) {
+    const checkpoint = cache.checkpoints.get(count);
+    if (checkpoint) {
+      start = { count, state: checkpoint };
+      break;
+    }
+  }
+  if (
+    cache.latest &&
+    cache.latest.count <= common &&
+    cache.latest.count > start.count
+  ) {
+    start = cache.latest;
+  }
+
+  // 撤销得到的前缀保留原有缓存，便于重做
+  if (common < events.length) {
+    const { checkpoints } = cache;
+    checkpoints.forEach((_, count) => {
+      if (count > common) checkpoints.delete(count);
+    });
+    cache.events = events;
+  }
+
+  let state = start.state;
+  for (let i = start.count; i < events.length; i++) {
+    state = applyEvent(state, events[i]);
+    if ((i + 1) % CHECKPOINT_INTERVAL === 0) {
+      cache.checkpoints.set(i + 1, state);
+    }
+  }
+  cache.latest = { count: events.length, state };
+  return state;
+}
+
+/**
+ * 重放当前生效的事件，得到当前快照
+ */
+export function replayGame(state: GameState): ReplayState {
+  return replay(
+    state.initial,
+    resolveEvents(state.events.slice(0, state.head)),
+    state.initialRules
+  );
+}
+
+export function getPresent(state: GameState): CoreSnapshot {
+  return replayGame(state).snapshot;
+}
+
+function sumPoints(snapshot: CoreSnapshot, rules: RuleSet): number {
+  return (
+    snapshot.points.reduce((sum, v) => sum + v, 0) +
+    getKyotakuPoints(snapshot, rules)
+  );
+}
+
+/**
+ * 各家点数与场上立直棒（按宣告时的点数）的合计，以及应有的合计
+ * 应有的合计以开局快照为准，扣除作废的立直棒，不受之后修改配给原点等规则的影响
+ */
+export function getPointTotals(
+  state: GameState,
+  present: CoreSnapshot = getPresent(state)
+): { total: number; expected: number } {
+  return {
+    total: sumPoints(present, state.initialRules),
+    expected:
+      sumPoints(state.initial, state.initialRules) -
+      (present.forfeitedPoints ?? 0),
+  };
+}
+
+function createEvent(event: NewGameEvent, index: number): GameEvent {
+  return {
+    ...event,
+    id: `${Date.now()}-${index}`,
+    timestamp: new Date().toLocaleString("zh-CN", {
+      hour12: false,
+    }),
+  } as GameEvent;
+}
+
+/**
+ * 追加一个事件；撤销后再录入新的操作时，被撤销的事件不再能重做
+ * 撤销到修改规则之前再录入时，先补记当前规则，保证新事件按当前规则重放
+ */
+export function appendEvent(state: GameState, event: NewGameEvent): GameState {
+  const events = state.events.slice(0, state.head);
+  if (
+    event.type !== "rules" &&
+    !isSameRules(replayGame(state).rules, state.rules)
+  ) {
+    events.push(
+      createEvent({ type: "rules", rules: state.rules }, events.length)
+    );
+  }
+  events.push(createEvent(event, events.length));
+  return { ...state, events, head: events.length };
+}
+
+/**
+ * 修改规则：尚未录入任何事件时直接作为开局规则，否则记录为事件，只影响之后的事件
+ */
+export function changeRules(state: GameState, rules: RuleSet): GameState {
+  if (state.events.length === 0) {
+    return { ...state, rules, initialRules: rules };
+  }
+  if (isSameRules(state.rules, rules)) return state;
+  return appendEvent({ ...state, rules }, { type: "rules", rules });
+}
+
+export function canUndo(state: GameState): boolean {
+  return state.events.slice(0, state.head).some(isUndoStep);
+}
+
+export function canRedo(state: GameState): boolean {
+  return state.head < state.events.length;
+}
+
+/**
+ * 撤销最近的一步及其之后的编辑场况等操作
+ */
+export function undo(state: GameState): GameState {
+  for (let i = state.head - 1; i >= 0; i--) {
+    if (isUndoStep(state.events[i])) return { ...state, head: i };
+  }
+  return state;
+}
+
+/**
+ * 重做下一步及其之后的编辑场况等操作
+ */
+export function redo(state: GameState): GameState {
+  if (!canRedo(state)) return state;
+  const next = state.events.findIndex(
+    (event, index) => index > state.head && isUndoStep(event)
+  );
+  return { ...state, head: next === -1 ? state.events.length : next };
+}
+
+// 昵称修改事件中出现过的昵称
+export function getEventNames(state: GameState): string[] {
+  return state.events
+    .slice(0, state.head)
+    .flatMap((event) => (event.type === "names" ? event.names : []));
+}
+
+export interface AmendmentPreview {
+  event: NewGameEvent;
+  present: CoreSnapshot;
+  // 重算过程中需要提示的情况，例如对局提前结束
+  warnings: string[];
+}
+
+/**
+ * 预览修改或删除（input 为 null）一条历史记录后的重算结果
+ * 之后的事件按原输入依次重放，编辑场况、昵称与立直宣告保持不变
+ */
+export function previewAmendment(
+  state: GameState,
+  entryId: string,
+  input: SettlementInput | null
+): AmendmentPreview | { error: string } {
+  const applied = state.events.slice(0, state.head);
+  const position = resolveEvents(applied).findIndex(
+    (event) => event.id === entryId
+  );
+  if (position === -1) {
+    return { error: "该记录早于当前存档格式，无法修改" };
+  }
+
+  const event: NewGameEvent = { type: "amend", target: entryId, input };
+  const resolved = resolveEvents([
+    ...applied,
+    { ...event, id: "", timestamp: "" },
+  ]);
+  let current = replay(
+    state.initial,
+    resolved.slice(0, position),
+    state.initialRules
+  );
+  const warnings: string[] = [];
+  resolved.slice(position).forEach((later, index) => {
+    // 被修改的记录本身不提示
+    const skip = input !== null && index === 0;
+    current = applyEvent(current, later, skip ? undefined : warnings);
+  });
+  return {
+    event,
+    present: current.snapshot,
+    warnings: [...new Set(warnings)],
+  };
+}
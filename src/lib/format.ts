@@ -0,0 +1,9 @@
+export function formatPoints(value: number): string {
+  return new Intl.NumberFormat("en-US").format(value);
+}
+
+export function formatDiff(value: number): string {
+  if (value === 0) return "0";
+  const sign = value > 0 ? "+" : "-";
+  return `${sign}${formatPoints(Math.abs(value))}`;
+}
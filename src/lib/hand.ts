@@ -0,0 +1,596 @@
+import type { RuleSet } from "@/lib/rules";
+import { calcBasePoints } from "@/lib/scoring";
+
+// 牌的编号：0-8 万子，9-17 筒子，18-26 索子，27-33 字牌（东南西北白发中）
+type Tile = number;
+
+const SUITS = "mpsz";
+const WIND_TILES = [27, 28, 29, 30];
+const DRAGON_TILES = [31, 32, 33];
+const NORTH_TILE = 30;
+const GREEN_TILES = [19, 20, 21, 23, 25, 32];
+const KOKUSHI_TILES = [0, 8, 9, 17, 18, 26, 27, 28, 29, 30, 31, 32, 33];
+
+export interface HandAnalysisInput {
+  // 门前手牌（不含和了牌），mpsz 记法，0 表示赤五
+  hand: string;
+  winningTile: string;
+  // 副露，以空格分隔：123m 为吃，555p 为碰，1111z 为明杠，[2222s] 为暗杠
+  melds: string;
+  // 宝牌 / 里宝牌指示牌
+  dora: string;
+  ura: string;
+  // 三麻拔北的张数，每张北按宝牌计番（北为宝牌时另加）
+  nukidora: number;
+  tsumo: boolean;
+  riichi: boolean;
+  doubleRiichi: boolean;
+  ippatsu: boolean;
+  rinshan: boolean;
+  chankan: boolean;
+  haitei: boolean;
+  // 自风与场风：0 东，1 南，2 西，3 北
+  seatWind: number;
+  roundWind: number;
+}
+
+export interface YakuResult {
+  name: string;
+  han: number;
+}
+
+export interface FuItem {
+  label: string;
+  fu: number;
+}
+
+export interface HandAnalysis {
+  yaku: YakuResult[];
+  han: number;
+  fu: number;
+  fuItems: FuItem[];
+  // 役满倍数，非役满时为 0
+  yakuman: number;
+}
+
+type SetKind = "shuntsu" | "koutsu" | "kantsu";
+
+interface TileSet {
+  kind: SetKind;
+  tile: Tile;
+  open: boolean;
+}
+
+interface ParsedMeld extends TileSet {
+  tiles: Tile[];
+}
+
+/**
+ * 解析 mpsz 记法，返回牌的编号与赤宝牌数量，格式错误时返回 null
+ */
+export function parseTiles(
+  text: string
+): { tiles: Tile[]; red: number } | null {
+  const compact = text.replace(/\s/g, "");
+  if (!/^(\d+[mpsz])*$/.test(compact)) return null;
+  const tiles: Tile[] = [];
+  let red = 0;
+  for (const [, digits, suit] of compact.matchAll(/(\d+)([mpsz])/g)) {
+    const offset = SUITS.indexOf(suit) * 9;
+    for (const ch of digits) {
+      let n = Number(ch);
+      if (n === 0) {
+        if (suit === "z") return null;
+        red += 1;
+        n = 5;
+      }
+      if (suit === "z" && n > 7) return null;
+      tiles.push(offset + n - 1);
+    }
+  }
+  return { tiles, red };
+}
+
+function parseMelds(text: string): { melds: ParsedMeld[]; red: number } | null {
+  const melds: ParsedMeld[] = [];
+  let red = 0;
+  for (const token of text.split(/[\s,，]+/).filter(Boolean)) {
+    const closed = /^\[.*\]$/.test(token);
+    const parsed = parseTiles(closed ? token.slice(1, -1) : token);
+    if (!parsed) return null;
+    const tiles = [...parsed.tiles].sort((a, b) => a - b);
+    red += parsed.red;
+    const same = tiles.every((t) => t === tiles[0]);
+    if (tiles.length === 4 && same) {
+      melds.push({ kind: "kantsu", tile: tiles[0], open: !closed, tiles });
+    } else if (closed) {
+      return null;
+    } else if (tiles.length === 3 && same) {
+      melds.push({ kind: "koutsu", tile: tiles[0], open: true, tiles });
+    } else if (
+      tiles.length === 3 &&
+      tiles[0] < 27 &&
+      Math.floor(tiles[0] / 9) === Math.floor(tiles[2] / 9) &&
+      tiles[1] === tiles[0] + 1 &&
+      tiles[2] === tiles[0] + 2
+    ) {
+      melds.push({ kind: "shuntsu", tile: tiles[0], open: true, tiles });
+    } else {
+      return null;
+    }
+  }
+  return { melds, red };
+}
+
+function isHonor(tile: Tile): boolean {
+  return tile >= 27;
+}
+
+function isTerminalOrHonor(tile: Tile): boolean {
+  return isHonor(tile) || tile % 9 === 0 || tile % 9 === 8;
+}
+
+function setTiles(set: TileSet): Tile[] {
+  if (set.kind === "shuntsu") return [set.tile, set.tile + 1, set.tile + 2];
+  return set.kind === "kantsu"
+    ? [set.tile, set.tile, set.tile, set.tile]
+    : [set.tile, set.tile, set.tile];
+}
+
+function setHasTerminalOrHonor(set: TileSet): boolean {
+  return setTiles(set).some(isTerminalOrHonor);
+}
+
+// 宝牌指示牌的下一张为宝牌
+function doraFromIndicator(tile: Tile): Tile {
+  if (tile < 27) return Math.floor(tile / 9) * 9 + (((tile % 9) + 1) % 9);
+  if (tile < 31) return 27 + ((tile - 27 + 1) % 4);
+  return 31 + ((tile - 31 + 1) % 3);
+}
+
+function toCounts(tiles: Tile[]): number[] {
+  const counts = new Array(34).fill(0);
+  tiles.forEach((t) => {
+    counts[t] += 1;
+  });
+  return counts;
+}
+
+/**
+ * 列出门前部分拆成若干面子加一组雀头的所有方式
+ */
+function decompose(
+  counts: number[],
+  setCount: number
+): { pair: Tile; sets: TileSet[] }[] {
+  const results: { pair: Tile; sets: TileSet[] }[] = [];
+
+  const extract = (rest: number[], sets: TileSet[], pair: Tile) => {
+    const first = rest.findIndex((c) => c > 0);
+    if (first === -1) {
+      if (sets.length === setCount) results.push({ pair, sets: [...sets] });
+      return;
+    }
+    if (rest[first] >= 3) {
+      rest[first] -= 3;
+      extract(
+        rest,
+        [...sets, { kind: "koutsu", tile: first, open: false }],
+        pair
+      );
+      rest[first] += 3;
+    }
+    if (
+      first < 27 &&
+      first % 9 <= 6 &&
+      rest[first + 1] > 0 &&
+      rest[first + 2] > 0
+    ) {
+      rest[first] -= 1;
+      rest[first + 1] -= 1;
+      rest[first + 2] -= 1;
+      extract(
+        rest,
+        [...sets, { kind: "shuntsu", tile: first, open: false }],
+        pair
+      );
+      rest[first] += 1;
+      rest[first + 1] += 1;
+      rest[first + 2] += 1;
+    }
+  };
+
+  counts.forEach((count, tile) => {
+    if (count < 2) return;
+    const rest = [...counts];
+    rest[tile] -= 2;
+    extract(rest, [], tile);
+  });
+  return results;
+}
+
+type WaitKind = "ryanmen" | "kanchan" | "penchan" | "shanpon" | "tanki";
+
+interface Context {
+  input: HandAnalysisInput;
+  rules: RuleSet;
+  menzen: boolean;
+  allTiles: Tile[];
+  dora: number;
+}
+
+interface Scored {
+  yaku: YakuResult[];
+  yakuman: YakuResult[];
+  fu: number;
+  fuItems: FuItem[];
+}
+
+function yakuhaiTiles(ctx: Context): { tile: Tile; name: string }[] {
+  const { seatWind, roundWind } = ctx.input;
+  const names = ["东", "南", "西", "北"];
+  return [
+    { tile: 31, name: "役牌 白" },
+    { tile: 32, name: "役牌 发" },
+    { tile: 33, name: "役牌 中" },
+    { tile: 27 + roundWind, name: `场风 ${names[roundWind]}` },
+    { tile: 27 + seatWind, name: `自风 ${names[seatWind]}` },
+  ];
+}
+
+// 与手牌形状无关的役：立直、一发、门前清自摸和、岭上、抢杠、海底 / 河底
+function situationalYaku(ctx: Context): YakuResult[] {
+  const { input, menzen } = ctx;
+  const yaku: YakuResult[] = [];
+  if (menzen && input.doubleRiichi) yaku.push({ name: "两立直", han: 2 });
+  else if (menzen && input.riichi) yaku.push({ name: "立直", han: 1 });
+  if (menzen && (input.riichi || input.doubleRiichi) && input.ippatsu) {
+    yaku.push({ name: "一发", han: 1 });
+  }
+  if (menzen && input.tsumo) yaku.push({ name: "门前清自摸和", han: 1 });
+  if (input.rinshan && input.tsumo) yaku.push({ name: "岭上开花", han: 1 });
+  if (input.chankan && !input.tsumo) yaku.push({ name: "抢杠", han: 1 });
+  if (input.haitei) {
+    yaku.push({ name: input.tsumo ? "海底摸月" : "河底捞鱼", han: 1 });
+  }
+  return yaku;
+}
+
+// 与形状无关的染手、断幺九、混老头、字一色等
+function colorYaku(ctx: Context): {
+  yaku: YakuResult[];
+  yakuman: YakuResult[];
+} {
+  const { allTiles, menzen, rules } = ctx;
+  const yaku: YakuResult[] = [];
+  const yakuman: YakuResult[] = [];
+  const suits = new Set(
+    allTiles.filter((t) => !isHonor(t)).map((t) => Math.floor(t / 9))
+  );
+  const hasHonor = allTiles.some(isHonor);
+
+  if (allTiles.every(isHonor)) yakuman.push({ name: "字一色", han: 13 });
+  if (allTiles.every((t) => GREEN_TILES.includes(t))) {
+    yakuman.push({ name: "绿一色", han: 13 });
+  }
+  if (allTiles.every((t) => isTerminalOrHonor(t) && !isHonor(t))) {
+    yakuman.push({ name: "清老头", han: 13 });
+  }
+
+  if (!allTiles.some(isTerminalOrHonor) && (menzen || rules.kuitan)) {
+    yaku.push({ name: "断幺九", han: 1 });
+  }
+  if (suits.size === 1 && !hasHonor) {
+    yaku.push({ name: "清一色", han: menzen ? 6 : 5 });
+  } else if (suits.size === 1 && hasHonor) {
+    yaku.push({ name: "混一色", han: menzen ? 3 : 2 });
+  }
+  if (allTiles.every(isTerminalOrHonor) && hasHonor && suits.size > 0) {
+    yaku.push({ name: "混老头", han: 2 });
+  }
+  return { yaku, yakuman };
+}
+
+function scoreRegular(
+  ctx: Context,
+  pair: Tile,
+  sets: TileSet[],
+  wait: WaitKind
+): Scored {
+  const { input, menzen, rules } = ctx;
+  const yaku = situationalYaku(ctx);
+  const color = colorYaku(ctx);
+  const yakuman = [...color.yakuman];
+
+  const shuntsu = sets.filter((s) => s.kind === "shuntsu");
+  const triplets = sets.filter((s) => s.kind !== "shuntsu");
+  const kantsu = sets.filter((s) => s.kind === "kantsu");
+  const concealedTriplets = triplets.filter((s) => !s.open);
+  const yakuhai = yakuhaiTiles(ctx);
+  const isYakuhaiPair = yakuhai.some((y) => y.tile === pair);
+
+  // 役满
+  const dragonSets = triplets.filter((s) => DRAGON_TILES.includes(s.tile));
+  const windSets = triplets.filter((s) => WIND_TILES.includes(s.tile));
+  if (dragonSets.length === 3) yakuman.push({ name: "大三元", han: 13 });
+  if (concealedTriplets.length === 4) yakuman.push({ name: "四暗刻", han: 13 });
+  if (windSets.length === 4) {
+    yakuman.push({ name: "大四喜", han: 13 });
+  } else if (windSets.length === 3 && WIND_TILES.includes(pair)) {
+    yakuman.push({ name: "小四喜", han: 13 });
+  }
+  if (kantsu.length === 4) yakuman.push({ name: "四杠子", han: 13 });
+  if (menzen && isChuuren(ctx.allTiles)) {
+    yakuman.push({ name: "九莲宝灯", han: 13 });
+  }
+
+  // 一般役
+  const pinfu =
+    menzen && shuntsu.length === 4 && !isYakuhaiPair && wait === "ryanmen";
+  if (pinfu) yaku.push({ name: "平和", han: 1 });
+
+  if (menzen) {
+    const keys = shuntsu.map((s) => s.tile).sort((a, b) => a - b);
+    let peiko = 0;
+    for (let i = 0; i + 1 < keys.length; i += 1) {
+      if (keys[i] === keys[i + 1]) {
+        peiko += 1;
+        i += 1;
+      }
+    }
+    if (peiko === 2) yaku.push({ name: "二杯口", han: 3 });
+    else if (peiko === 1) yaku.push({ name: "一杯口", han: 1 });
+  }
+
+  yakuhai.forEach(({ tile, name }) => {
+    if (triplets.some((s) => s.tile === tile)) yaku.push({ name, han: 1 });
+  });
+
+  const hasSanshoku = shuntsu.some((s) =>
+    [0, 1, 2].every((suit) =>
+      shuntsu.some((o) => o.tile === suit * 9 + (s.tile % 9))
+    )
+  );
+  if (hasSanshoku) yaku.push({ name: "三色同顺", han: menzen ? 2 : 1 });
+
+  const hasIttsu = [0, 1, 2].some((suit) =>
+    [0, 3, 6].every((n) => shuntsu.some((s) => s.tile === suit * 9 + n))
+  );
+  if (hasIttsu) yaku.push({ name: "一气通贯", han: menzen ? 2 : 1 });
+
+  const allChanta =
+    isTerminalOrHonor(pair) && sets.every(setHasTerminalOrHonor);
+  if (allChanta && shuntsu.length > 0) {
+    const hasHonor = isHonor(pair) || sets.some((s) => isHonor(s.tile));
+    if (hasHonor) yaku.push({ name: "混全带幺九", han: menzen ? 2 : 1 });
+    else yaku.push({ name: "纯全带幺九", han: menzen ? 3 : 2 });
+  }
+
+  if (triplets.length === 4) yaku.push({ name: "对对和", han: 2 });
+  if (concealedTriplets.length === 3) yaku.push({ name: "三暗刻", han: 2 });
+  const hasSanshokuDoukou = triplets.some(
+    (s) =>
+      !isHonor(s.tile) &&
+      [0, 1, 2].every((suit) =>
+        triplets.some((o) => o.tile === suit * 9 + (s.tile % 9))
+      )
+  );
+  if (hasSanshokuDoukou) yaku.push({ name: "三色同刻", han: 2 });
+  if (kantsu.length === 3) yaku.push({ name: "三杠子", han: 2 });
+  if (dragonSets.length === 2 && DRAGON_TILES.includes(pair)) {
+    yaku.push({ name: "小三元", han: 2 });
+  }
+  yaku.push(...color.yaku);
+
+  // 符
+  const fuItems: FuItem[] = [{ label: "副底", fu: 20 }];
+  if (menzen && !input.tsumo) fuItems.push({ label: "门前荣和", fu: 10 });
+  if (input.tsumo && !pinfu) fuItems.push({ label: "自摸", fu: 2 });
+  triplets.forEach((s) => {
+    const base = s.kind === "kantsu" ? 8 : 2;
+    const fu = base * (s.open ? 1 : 2) * (isTerminalOrHonor(s.tile) ? 2 : 1);
+    const kindLabel =
+      s.kind === "kantsu"
+        ? s.open
+          ? "明杠"
+          : "暗杠"
+        : s.open
+        ? "明刻"
+        : "暗刻";
+    fuItems.push({ label: `${kindLabel} ${formatTile(s.tile)}`, fu });
+  });
+  // 役牌雀头 2 符；连风牌雀头按规则计 2 符或 4 符
+  const isSeatPair = pair === 27 + input.seatWind;
+  const isRoundPair = pair === 27 + input.roundWind;
+  let pairFu = 0;
+  if (DRAGON_TILES.includes(pair)) pairFu = 2;
+  else if (isSeatPair && isRoundPair) pairFu = rules.doubleWindPairFu;
+  else if (isSeatPair || isRoundPair) pairFu = 2;
+  if (pairFu > 0) {
+    fuItems.push({ label: `雀头 ${formatTile(pair)}`, fu: pairFu });
+  }
+  if (wait === "kanchan" || wait === "penchan" || wait === "tanki") {
+    const labels = { kanchan: "嵌张", penchan: "边张", tanki: "单骑" };
+    fuItems.push({ label: `${labels[wait]}听牌`, fu: 2 });
+  }
+
+  let fu = fuItems.reduce((sum, item) => sum + item.fu, 0);
+  if (pinfu && input.tsumo) {
+    fu = 20;
+  } else if (!menzen && fu === 20) {
+    // 副露的平和形荣和按 30 符计
+    fuItems.push({ label: "副露平和形", fu: 10 });
+    fu = 30;
+  } else {
+    fu = Math.ceil(fu / 10) * 10;
+  }
+
+  return { yaku, yakuman, fu, fuItems };
+}
+
+function isChuuren(tiles: Tile[]): boolean {
+  if (tiles.some(isHonor)) return false;
+  const suit = Math.floor(tiles[0] / 9);
+  if (tiles.some((t) => Math.floor(t / 9) !== suit)) return false;
+  const counts = toCounts(tiles).slice(suit * 9, suit * 9 + 9);
+  const need = [3, 1, 1, 1, 1, 1, 1, 1, 3];
+  return counts.every((c, i) => c >= need[i]);
+}
+
+function scoreChiitoitsu(ctx: Context): Scored {
+  const yaku = situationalYaku(ctx);
+  const color = colorYaku(ctx);
+  yaku.push({ name: "七对子", han: 2 }, ...color.yaku);
+  return {
+    yaku,
+    yakuman: color.yakuman,
+    fu: 25,
+    fuItems: [{ label: "七对子", fu: 25 }],
+  };
+}
+
+function formatTile(tile: Tile): string {
+  return `${(tile % 9) + 1}${SUITS[Math.floor(tile / 9)]}`;
+}
+
+function classifyWaits(set: TileSet, winning: Tile): WaitKind | null {
+  if (set.kind !== "shuntsu") return set.tile === winning ? "shanpon" : null;
+  const offset = winning - set.tile;
+  if (offset < 0 || offset > 2) return null;
+  if (offset === 1) return "kanchan";
+  if (
+    (offset === 2 && set.tile % 9 === 0) ||
+    (offset === 0 && set.tile % 9 === 6)
+  ) {
+    return "penchan";
+  }
+  return "ryanmen";
+}
+
+// 比较各种拆法的得点，无役的拆法排在最后
+function totalScore(scored: Scored, ctx: Context, rules: RuleSet): number {
+  if (scored.yakuman.length === 0 && scored.yaku.length === 0) return -1;
+  const han = scored.yaku.reduce((sum, y) => sum + y.han, 0) + ctx.dora;
+  return (
+    calcBasePoints(han, scored.fu, rules, scored.yakuman.length) * 1000 + han
+  );
+}
+
+/**
+ * 分析和了形，返回役、番符明细与役满倍数；不成和了形或无役时返回错误说明
+ */
+export function analyzeHand(
+  input: HandAnalysisInput,
+  rules: RuleSet
+): HandAnalysis | { error: string } {
+  const hand = parseTiles(input.hand);
+  const winning = parseTiles(input.winningTile);
+  const meldResult = parseMelds(input.melds);
+  const dora = parseTiles(input.dora);
+  const ura = parseTiles(input.ura);
+  if (!hand || !meldResult || !dora || !ura) return { error: "牌的写法不正确" };
+  if (!winning || winning.tiles.length !== 1) {
+    return { error: "请填写一张和了牌" };
+  }
+  const { melds } = meldResult;
+  const winningTile = winning.tiles[0];
+  const closedTiles = [...hand.tiles, winningTile];
+  if (closedTiles.length !== 14 - melds.length * 3) {
+    return { error: `门前手牌应为 ${13 - melds.length * 3} 张（不含和了牌）` };
+  }
+  const allTiles = [...closedTiles, ...melds.flatMap((m) => m.tiles)];
+  if (toCounts(allTiles).some((c) => c > 4)) {
+    return { error: "同一种牌不能超过 4 张" };
+  }
+
+  const menzen = melds.every((m) => !m.open);
+  const doraTiles = dora.tiles.map(doraFromIndicator);
+  const uraTiles =
+    input.riichi || input.doubleRiichi ? ura.tiles.map(doraFromIndicator) : [];
+  const countOf = (targets: Tile[]) =>
+    targets.reduce((sum, d) => sum + allTiles.filter((t) => t === d).length, 0);
+  const doraCount = countOf(doraTiles);
+  const uraCount = countOf(uraTiles);
+  const redCount = hand.red + winning.red + meldResult.red;
+  const nukiCount =
+    input.nukidora *
+    (1 + [...doraTiles, ...uraTiles].filter((t) => t === NORTH_TILE).length);
+  const ctx: Context = {
+    input,
+    rules,
+    menzen,
+    allTiles,
+    dora: doraCount + uraCount + redCount + nukiCount,
+  };
+
+  const candidates: Scored[] = [];
+  const closedCounts = toCounts(closedTiles);
+
+  // 国士无双
+  if (
+    menzen &&
+    melds.length === 0 &&
+    KOKUSHI_TILES.every((t) => closedCounts[t] >= 1) &&
+    closedTiles.every((t) => KOKUSHI_TILES.includes(t))
+  ) {
+    candidates.push({
+      yaku: situationalYaku(ctx),
+      yakuman: [{ name: "国士无双", han: 13 }],
+      fu: 30,
+      fuItems: [],
+    });
+  }
+
+  // 七对子
+  if (melds.length === 0 && closedCounts.filter((c) => c === 2).length === 7) {
+    candidates.push(scoreChiitoitsu(ctx));
+  }
+
+  decompose(closedCounts, 4 - melds.length).forEach(({ pair, sets }) => {
+    const waits: { index: number; wait: WaitKind }[] = [];
+    if (pair === winningTile) waits.push({ index: -1, wait: "tanki" });
+    sets.forEach((set, index) => {
+      const wait = classifyWaits(set, winningTile);
+      if (wait) waits.push({ index, wait });
+    });
+    waits.forEach(({ index, wait }) => {
+      // 荣和完成的刻子视为明刻
+      const resolved = sets.map((set, i) =>
+        i === index && set.kind === "koutsu" && !input.tsumo
+          ? { ...set, open: true }
+          : set
+      );
+      candidates.push(scoreRegular(ctx, pair, [...resolved, ...melds], wait));
+    });
+  });
+
+  if (candidates.length === 0) return { error: "不是和了形" };
+
+  const best = candidates.reduce((a, b) =>
+    totalScore(b, ctx, rules) > totalScore(a, ctx, rules) ? b : a
+  );
+
+  if (best.yakuman.length > 0) {
+    return {
+      yaku: best.yakuman,
+      han: 0,
+      fu: best.fu,
+      fuItems: best.fuItems,
+      yakuman: best.yakuman.length,
+    };
+  }
+  if (best.yaku.length === 0) return { error: "无役" };
+
+  const yaku = [...best.yaku];
+  if (doraCount > 0) yaku.push({ name: "宝牌", han: doraCount });
+  if (redCount > 0) yaku.push({ name: "赤宝牌", han: redCount });
+  if (uraCount > 0) yaku.push({ name: "里宝牌", han: uraCount });
+  if (nukiCount > 0) yaku.push({ name: "拔北宝牌", han: nukiCount });
+  return {
+    yaku,
+    han: yaku.reduce((sum, y) => sum + y.han, 0),
+    fu: best.fu,
+    fuItems: best.fuItems,
+    yakuman: 0,
+  };
+}
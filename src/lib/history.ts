@@ -0,0 +1,193 @@
+import { formatPoints } from "@/lib/format";
+import { getKyotakuPoints, withdrawRiichi } from "@/lib/riichi";
+import { getRoundInfo } from "@/lib/round";
+import { END_KYOTAKU_LABELS, type RuleSet } from "@/lib/rules";
+import {
+  applyDeltas,
+  describeDealerStop,
+  describeSettlement,
+  settle,
+  type SettlementInput,
+  type SettlementResult,
+} from "@/lib/scoring";
+import { distributeKyotaku } from "@/lib/standings";
+import {
+  PLAYER_LABELS,
+  type CoreSnapshot,
+  type HistoryEntry,
+  type SeatIndex,
+  type SettlementType,
+  type YakuRecord,
+} from "@/lib/types";
+
+export function buildHistoryEntry(
+  snapshot: CoreSnapshot,
+  rules: RuleSet,
+  type: SettlementType,
+  description: string,
+  riichiCount: number,
+  riichiPlayers: string[],
+  deltas: number[]
+): HistoryEntry {
+  const { label } = getRoundInfo(snapshot, rules);
+  const dealerLabel =
+    snapshot.names[snapshot.dealerIndex] ?? PLAYER_LABELS[snapshot.dealerIndex];
+  return {
+    id: `${Date.now()}-${snapshot.history.length}`,
+    type,
+    roundLabel: label,
+    dealerLabel,
+    riichiCount,
+    description,
+    timestamp: new Date().toLocaleString("zh-CN", {
+      hour12: false,
+    }),
+    playerNames: [...snapshot.names],
+    riichiPlayers: [...riichiPlayers],
+    deltas: [...deltas],
+  };
+}
+
+// 按役种录入时记录的和牌者与役种
+export interface WinnerYaku {
+  winner: SeatIndex;
+  yaku: YakuRecord[];
+}
+
+// 生成记录的事件编号与录入时间，重放事件时沿用
+export type EntryIdentity = Pick<HistoryEntry, "id" | "timestamp">;
+
+function keepIdentity(entry: HistoryEntry, identity?: EntryIdentity) {
+  if (!identity) return entry;
+  return { ...entry, id: identity.id, timestamp: identity.timestamp };
+}
+
+/**
+ * 录入一次结算：退回本局已宣告的立直棒后按输入结算，生成历史记录与新的快照
+ * 手动调整不结束本局，保留本局的立直宣告与终局状态
+ */
+export function applySettlement(
+  snapshot: CoreSnapshot,
+  input: SettlementInput,
+  rules: RuleSet,
+  winnerYaku: WinnerYaku[] = [],
+  identity?: EntryIdentity
+): { present: CoreSnapshot; result: SettlementResult } {
+  const isAdjustment = input.type === "adjustment";
+  const base = isAdjustment ? snapshot : withdrawRiichi(snapshot, rules);
+  const result = settle(base, input, rules);
+  const riichiPlayers = result.breakdown.riichiIndices.map(
+    (i) => base.names[i] ?? PLAYER_LABELS[i]
+  );
+  const entry = buildHistoryEntry(
+    base,
+    rules,
+    result.breakdown.type,
+    describeSettlement(base, input, result, rules),
+    riichiPlayers.length,
+    riichiPlayers,
+    result.deltas
+  );
+  entry.input = input;
+  if (result.breakdown.liableIndices.length > 0) {
+    entry.liablePlayers = result.breakdown.liableIndices.map(
+      (i) => base.names[i] ?? PLAYER_LABELS[i]
+    );
+  }
+  const recordedYaku = winnerYaku.filter((w) => w.yaku.length > 0);
+  if (recordedYaku.length > 0) {
+    entry.winnerYaku = recordedYaku.map((w) => ({
+      player: base.names[w.winner] ?? PLAYER_LABELS[w.winner],
+      yaku: w.yaku,
+    }));
+  }
+
+  const present: CoreSnapshot = {
+    points: applyDeltas(base.points, result.deltas),
+    kyotaku: result.next.kyotaku,
+    kyotakuPoints: result.next.kyotakuPoints,
+    forfeitedPoints:
+      (base.forfeitedPoints ?? 0) + result.breakdown.forfeitedPoints,
+    honba: result.next.honba,
+    kyokuIndex: result.next.kyokuIndex,
+    dealerIndex: result.next.dealerIndex,
+    renchan: result.next.renchan,
+    finished: isAdjustment ? base.finished : result.gameEnded,
+    riichiDeclared: isAdjustment ? base.riichiDeclared : undefined,
+    umaPenalties: applyDeltas(
+      base.umaPenalties ?? base.points.map(() => 0),
+      result.umaPenalties
+    ),
+    history: [keepIdentity(entry, identity), ...base.history],
+    names: base.names,
+  };
+  return { present, result };
+}
+
+/**
+ * 终局时按规则分配（或作废）场上剩余的立直棒，对局未结束或没有剩余时返回 null
+ */
+export function applyKyotakuDistribution(
+  snapshot: CoreSnapshot,
+  rules: RuleSet,
+  identity?: EntryIdentity
+): CoreSnapshot | null {
+  if (!snapshot.finished || snapshot.kyotaku === 0) return null;
+
+  const deltas = distributeKyotaku(snapshot, rules);
+  // 按规则作废时，场上立直棒的点数计入作废合计
+  const forfeited =
+    getKyotakuPoints(snapshot, rules) -
+    deltas.reduce((sum, delta) => sum + delta, 0);
+  const receivers = deltas
+    .map((delta, index) => ({ delta, index }))
+    .filter((d) => d.delta > 0)
+    .map(
+      (d) =>
+        `${
+          snapshot.names[d.index] ?? PLAYER_LABELS[d.index]
+        } 收入 ${formatPoints(d.delta)} 点`
+    );
+  const description =
+    receivers.length > 0
+      ? `终局立直供托分配（${
+          END_KYOTAKU_LABELS[rules.endKyotaku]
+        }）：${receivers.join("，")}。`
+      : `终局场上剩余 ${snapshot.kyotaku} 根立直棒作废。`;
+  const entry = buildHistoryEntry(
+    snapshot,
+    rules,
+    "draw",
+    description,
+    0,
+    [],
+    deltas
+  );
+  entry.kyotakuDistribution = true;
+
+  return {
+    ...snapshot,
+    points: applyDeltas(snapshot.points, deltas),
+    kyotaku: 0,
+    kyotakuPoints: 0,
+    forfeitedPoints: (snapshot.forfeitedPoints ?? 0) + forfeited,
+    history: [keepIdentity(entry, identity), ...snapshot.history],
+  };
+}
+
+/**
+ * All Last 庄家选择终止对局：在最近一条记录中追加说明并终局
+ */
+export function applyDealerStop(snapshot: CoreSnapshot): CoreSnapshot {
+  const [latest, ...rest] = snapshot.history;
+  if (!latest) return snapshot;
+  const entry: HistoryEntry = {
+    ...latest,
+    description: `${latest.description}${describeDealerStop(
+      snapshot,
+      latest.type
+    )}`,
+    dealerStopped: true,
+  };
+  return { ...snapshot, finished: true, history: [entry, ...rest] };
+}
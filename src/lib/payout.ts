@@ -0,0 +1,135 @@
+import { getSeatCount, type RuleSet } from "@/lib/rules";
+import {
+  calcBasePoints,
+  calcTsumoPayments,
+  formatLimit,
+  formatYakuman,
+  resolveYakumanMultiple,
+  roundUpToHundred,
+  validateHanFu,
+} from "@/lib/scoring";
+
+// 牌桌上报的点数：荣和总额 / 闲家自摸的 子-亲 支付 / 庄家自摸的每家支付
+export type PayoutCall =
+  | { kind: "ron"; total: number }
+  | { kind: "split"; nonDealer: number; dealer: number }
+  | { kind: "all"; each: number };
+
+// 由点数反推出的和牌候选，满贯以上只保留一项代表
+export interface HandCandidate {
+  han: number;
+  fu: number;
+  yakuman?: number;
+  label: string;
+}
+
+const LEGAL_FU = [20, 25, 30, 40, 50, 60, 70, 80, 90, 100, 110];
+
+// 各满贯档位的代表番数
+const LIMIT_HAN = [5, 6, 8, 11, 13];
+
+/**
+ * 解析 "7700"、"1300-2600"、"1300/2600"、"2600 all" 等写法，无法识别时返回 null
+ */
+export function parsePayoutCall(
+  text: string,
+  type: "tsumo" | "ron",
+  winnerIsDealer: boolean
+): PayoutCall | null {
+  const normalized = text.replace(/[,，\s]/g, "").toLowerCase();
+  const split = normalized.match(/^(\d+)[-/](\d+)$/);
+  if (split) {
+    if (type !== "tsumo") return null;
+    return {
+      kind: "split",
+      nonDealer: Number(split[1]),
+      dealer: Number(split[2]),
+    };
+  }
+  const single = normalized.match(/^(\d+)(all|∀|オール)?$/);
+  if (!single) return null;
+  const value = Number(single[1]);
+  if (type === "ron") return single[2] ? null : { kind: "ron", total: value };
+  // 庄家自摸只需报每家支付的点数
+  return winnerIsDealer ? { kind: "all", each: value } : null;
+}
+
+function matchesCall(
+  basePoints: number,
+  call: PayoutCall,
+  winnerIsDealer: boolean,
+  honba: number,
+  rules: RuleSet
+): boolean {
+  const tsumo = calcTsumoPayments(basePoints, winnerIsDealer, rules);
+  const honbaShare = rules.honbaValue / (getSeatCount(rules) - 1);
+  // 报点时可能已经加上本场棒，两种写法都接受
+  return [0, honba].some((h) => {
+    switch (call.kind) {
+      case "ron":
+        return (
+          !!call.total &&
+          roundUpToHundred(basePoints * (winnerIsDealer ? 6 : 4)) +
+            h * rules.honbaValue ===
+            call.total
+        );
+      case "all":
+        return winnerIsDealer && tsumo.nonDealer + h * honbaShare === call.each;
+      case "split":
+        return (
+          !winnerIsDealer &&
+          tsumo.nonDealer + h * honbaShare === call.nonDealer &&
+          tsumo.dealer + h * honbaShare === call.dealer
+        );
+    }
+  });
+}
+
+/**
+ * 按当前庄家与本场数，列出能得到该点数的所有合法番符（或满贯以上档位）
+ */
+export function findHandCandidates(
+  call: PayoutCall,
+  type: "tsumo" | "ron",
+  winnerIsDealer: boolean,
+  honba: number,
+  rules: RuleSet
+): HandCandidate[] {
+  const candidates: HandCandidate[] = [];
+  const matches = (basePoints: number) =>
+    matchesCall(basePoints, call, winnerIsDealer, honba, rules);
+
+  for (let han = 1; han <= 4; han += 1) {
+    LEGAL_FU.forEach((fu) => {
+      if (validateHanFu(han, fu, type)) return;
+      const basePoints = calcBasePoints(han, fu, rules);
+      // 满贯由下面的档位统一给出
+      if (basePoints >= 2000 || !matches(basePoints)) return;
+      candidates.push({ han, fu, label: `${han} 番 ${fu} 符` });
+    });
+  }
+
+  const limitPoints = new Set<number>();
+  LIMIT_HAN.forEach((han) => {
+    const basePoints = calcBasePoints(han, 30, rules);
+    // 累计役满与一倍役满点数相同，由役满候选给出；
+    // 不计累计役满时 13 番与三倍满点数相同，只保留一个档位
+    if (basePoints >= 8000 || limitPoints.has(basePoints)) return;
+    if (!matches(basePoints)) return;
+    limitPoints.add(basePoints);
+    candidates.push({ han, fu: 30, label: formatLimit(basePoints) ?? "" });
+  });
+
+  const maxMultiple = resolveYakumanMultiple(Number.MAX_SAFE_INTEGER, rules);
+  for (let multiple = 1; multiple <= maxMultiple; multiple += 1) {
+    if (!matches(calcBasePoints(0, 0, rules, multiple))) continue;
+    candidates.push({
+      han: 0,
+      fu: 0,
+      yakuman: multiple,
+      label: formatYakuman(multiple),
+    });
+  }
+
+  return candidates;
+}
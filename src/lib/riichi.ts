@@ -0,0 +1,83 @@
+import type { RuleSet } from "@/lib/rules";
+import type { CoreSnapshot, SeatIndex } from "@/lib/types";
+
+/**
+ * 各家是否已在本局宣告立直（旧记录没有该字段时视为无人立直）
+ */
+export function getDeclaredRiichi(snapshot: CoreSnapshot): boolean[] {
+  return snapshot.points.map(
+    (_, idx) => snapshot.riichiDeclared?.[idx] === true
+  );
+}
+
+/**
+ * 场上立直棒的总点数：按各自宣告时的立直棒点数计算，旧记录按给定规则折算
+ */
+export function getKyotakuPoints(
+  snapshot: Pick<CoreSnapshot, "kyotaku" | "kyotakuPoints">,
+  rules: RuleSet
+): number {
+  return snapshot.kyotakuPoints ?? snapshot.kyotaku * rules.riichiStickValue;
+}
+
+/**
+ * 判断玩家能否宣告立直，返回不能立直的原因
+ */
+export function getRiichiError(
+  snapshot: CoreSnapshot,
+  seat: SeatIndex,
+  rules: RuleSet
+): string | null {
+  if (snapshot.riichiDeclared?.[seat]) return "已宣告立直";
+  if (
+    !rules.riichiWithoutStick &&
+    snapshot.points[seat] < rules.riichiStickValue
+  ) {
+    return "点数不足一根立直棒，不能立直";
+  }
+  return null;
+}
+
+/**
+ * 宣告立直：立即支付立直棒并计入场供
+ */
+export function declareRiichi(
+  snapshot: CoreSnapshot,
+  seat: SeatIndex,
+  rules: RuleSet
+): CoreSnapshot {
+  const declared = getDeclaredRiichi(snapshot);
+  declared[seat] = true;
+  return {
+    ...snapshot,
+    points: snapshot.points.map((p, idx) =>
+      idx === seat ? p - rules.riichiStickValue : p
+    ),
+    kyotaku: snapshot.kyotaku + 1,
+    kyotakuPoints: getKyotakuPoints(snapshot, rules) + rules.riichiStickValue,
+    riichiDeclared: declared,
+  };
+}
+
+/**
+ * 退回本局已宣告的立直棒，得到宣告前的快照；结算时按对话框中的立直情况重新计算
+ */
+export function withdrawRiichi(
+  snapshot: CoreSnapshot,
+  rules: RuleSet
+): CoreSnapshot {
+  const declared = getDeclaredRiichi(snapshot);
+  const count = declared.filter(Boolean).length;
+  if (count === 0) return snapshot;
+  return {
+    ...snapshot,
+    points: snapshot.points.map((p, idx) =>
+      declared[idx] ? p + rules.riichiStickValue : p
+    ),
+    kyotaku: Math.max(0, snapshot.kyotaku - count),
+    // 退回的点数同样从场供中扣除，保证总点数不变
+    kyotakuPoints:
+      getKyotakuPoints(snapshot, rules) - count * rules.riichiStickValue,
+    riichiDeclared: undefined,
+  };
+}
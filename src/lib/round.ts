@@ -0,0 +1,129 @@
+import { getSeatCount, type GameLength, type RuleSet } from "@/lib/rules";
+import type { CoreSnapshot, RoundWind } from "@/lib/types";
+
+export const ROUND_WINDS: RoundWind[] = ["东", "南", "西", "北"];
+
+const GAME_LENGTH_WINDS: Record<GameLength, number> = {
+  tonpuusen: 1,
+  hanchan: 2,
+  issouchan: 4,
+};
+
+const GAME_END_LABELS: Record<GameLength, string> = {
+  tonpuusen: "东风战结束",
+  hanchan: "半庄结束",
+  issouchan: "一庄战结束",
+};
+
+/**
+ * 正规局最后一局结束后的 kyokuIndex，不含西入等延长局
+ * 每个场风的局数等于对局人数（三麻为东1-3局）
+ */
+export function getFinalKyokuIndex(rules: RuleSet): number {
+  return (GAME_LENGTH_WINDS[rules.gameLength] ?? 2) * getSeatCount(rules);
+}
+
+/**
+ * 延长局（最多延长一个场风）也结束后的 kyokuIndex，达到该值必定终局
+ */
+export function getMaxKyokuIndex(rules: RuleSet): number {
+  const finalIndex = getFinalKyokuIndex(rules);
+  if (rules.extension === "none") return finalIndex;
+  const seats = getSeatCount(rules);
+  return Math.min(finalIndex + seats, ROUND_WINDS.length * seats);
+}
+
+/**
+ * 当前规则下可能出现的场风（包括延长局）
+ */
+export function getPlayableWinds(rules: RuleSet): RoundWind[] {
+  return ROUND_WINDS.slice(0, getMaxKyokuIndex(rules) / getSeatCount(rules));
+}
+
+export function isGameOver(
+  snapshot: Pick<CoreSnapshot, "kyokuIndex" | "finished">,
+  rules: RuleSet
+): boolean {
+  return (
+    snapshot.finished === true || snapshot.kyokuIndex >= getMaxKyokuIndex(rules)
+  );
+}
+
+/**
+ * 一局结算后是否终局：正规局打完且有人达到目标点数，或延长局已全部打完
+ */
+export function shouldEndGame(
+  kyokuBefore: number,
+  kyokuAfter: number,
+  points: number[],
+  rules: RuleSet
+): boolean {
+  if (kyokuAfter >= getMaxKyokuIndex(rules)) return true;
+  const finalIndex = getFinalKyokuIndex(rules);
+  // 正规局打完后（含延长局中的连庄），只要有人达到目标点数即终局
+  if (Math.max(kyokuBefore, kyokuAfter) >= finalIndex) {
+    return points.some((p) => p >= rules.targetPoints);
+  }
+  return false;
+}
+
+/**
+ * 是否为 All Last（正规局或延长局的最后一局）
+ */
+export function isAllLast(kyokuIndex: number, rules: RuleSet): boolean {
+  return (
+    kyokuIndex === getFinalKyokuIndex(rules) - 1 ||
+    kyokuIndex === getMaxKyokuIndex(rules) - 1
+  );
+}
+
+/**
+ * All Last 庄家能否选择终止对局：有延长局时，正规局的最后一局须有人达到目标点数，
+ * 否则按规则必须继续进入延长局
+ */
+export function canDealerStop(
+  kyokuIndex: number,
+  points: number[],
+  rules: RuleSet
+): boolean {
+  if (!isAllLast(kyokuIndex, rules)) return false;
+  if (
+    rules.extension === "none" ||
+    kyokuIndex === getMaxKyokuIndex(rules) - 1
+  ) {
+    return true;
+  }
+  return points.some((p) => p >= rules.targetPoints);
+}
+
+export function toKyokuIndex(
+  wind: RoundWind,
+  number: number,
+  rules: RuleSet
+): number {
+  return ROUND_WINDS.indexOf(wind) * getSeatCount(rules) + (number - 1);
+}
+
+export function getRoundInfo(
+  snapshot: Pick<CoreSnapshot, "kyokuIndex" | "honba" | "finished">,
+  rules: RuleSet
+): {
+  wind: RoundWind;
+  number: number;
+  label: string;
+} {
+  const { kyokuIndex, honba } = snapshot;
+  const seats = getSeatCount(rules);
+  const lastIndex = Math.min(kyokuIndex, getMaxKyokuIndex(rules) - 1);
+  const wind = ROUND_WINDS[Math.floor(lastIndex / seats)];
+  if (isGameOver(snapshot, rules)) {
+    return {
+      wind,
+      number: (lastIndex % seats) + 1,
+      label: GAME_END_LABELS[rules.gameLength] ?? "半庄结束",
+    };
+  }
+  const number = (kyokuIndex % seats) + 1;
+  const label = `${wind}${number}局${honba}本场`;
+  return { wind, number, label };
+}
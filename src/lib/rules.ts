@@ -0,0 +1,396 @@
+// 终局点数换算为千点时的取整方式
+export type FinalRounding = "none" | "truncate" | "round" | "gosha-rokunyu";
+
+// 对局长度：东风战 / 半庄战 / 一庄战（东南西北四风）
+export type GameLength = "tonpuusen" | "hanchan" | "issouchan";
+
+// 正规局打完仍无人达到目标点数时的延长方式：不延长 / 延长一个场风，有人达到即终局
+export type GameExtension = "none" | "sudden-death";
+
+// 击飞规则：不击飞 / 点数低于0 / 点数为0及以下时终局
+export type BustRule = "none" | "below-zero" | "zero-or-below";
+
+// All Last 庄家和了或流局听牌且位列一位时：不可终止 / 可选择终止 / 必须终止
+export type AllLastStopRule = "disabled" | "optional" | "forced";
+
+// 一炮多响：头跳（仅上家优先者和牌） / 全部荣和者均获得支付
+export type MultiRonRule = "atamahane" | "all";
+
+// 三家和了：允许 / 视为途中流局
+export type TripleRonRule = "allowed" | "abortive";
+
+// 包牌（大三元、大四喜等责任支付）：自摸全额、荣和与放铳者平分 / 均由包牌者全额支付
+export type PaoRule = "split-ron" | "full";
+
+// 错和罚则：满贯罚符（反向支付满贯） / 固定点数（由其余三家平分） / 终局成绩扣分
+export type ChomboRule = "mangan" | "points" | "uma";
+
+// 荒牌流局时庄家连庄的条件：庄家听牌 / 不论听牌与否
+export type DrawRenchanRule = "tenpai" | "always";
+
+// 途中流局的原因：九种九牌 / 四风连打 / 四家立直 / 四杠散了 / 三家和了
+export type AbortiveDrawReason =
+  | "kyuushu"
+  | "suufon"
+  | "suucha-riichi"
+  | "suukaikan"
+  | "triple-ron";
+
+// 三人麻将自摸时缺席北家的那份：自摸损（不支付） / 北家折半（由两家平摊）
+export type SanmaTsumoRule = "tsumo-son" | "north-bisected";
+
+export type UmaPreset =
+  | "legacy"
+  | "m-league"
+  | "wrc"
+  | "20-10"
+  | "10-20-oka"
+  | "sanma-15"
+  | "sanma-20"
+  | "custom";
+
+// 同分时的顺位：共享顺位（均分顺位马与头名奖励），或按起家开始的座位顺序决定先后
+export type RankTieRule = "split" | "seat";
+
+// 终局时场上剩余立直棒的处理：归一位、由同分的最高分者均分、作废
+export type EndKyotakuRule = "top" | "split" | "forfeit";
+
+// 对局规则设置，结算引擎只从这里读取可变的规则参数
+export interface RuleSet {
+  // 对局人数：4 为四人麻将，3 为三人麻将（三麻）
+  playerCount: number;
+  sanmaTsumo: SanmaTsumoRule;
+  gameLength: GameLength;
+  extension: GameExtension;
+  // 延长局的目标点数（通常等于返点）
+  targetPoints: number;
+  bustRule: BustRule;
+  // 被击飞者向和牌者支付的击飞奖励
+  bustBonus: number;
+  // 击飞终局时场上剩余的立直棒是否按终局供托规则分配（否则作废）
+  bustKyotaku: boolean;
+  // 和了止め / 听牌止め
+  allLastStop: AllLastStopRule;
+  multiRon: MultiRonRule;
+  tripleRon: TripleRonRule;
+  drawRenchan: DrawRenchanRule;
+  // 各类途中流局后庄家是否连庄（否则轮庄）
+  abortiveRenchan: Record<AbortiveDrawReason, boolean>;
+  // 庄家和了连庄时是否累加本场（否则本场清零）
+  dealerWinHonba: boolean;
+  // 流局轮庄时是否累加本场（否则本场清零）
+  drawRotateHonba: boolean;
+  // 连庄上限：庄家连续连庄达到该次数后强制轮庄（如八连庄），0 为不限
+  renchanLimit: number;
+  paoRule: PaoRule;
+  // 流局满贯：是否同时计算未听牌罚符、是否收取本场棒、是否收取场上立直棒
+  nagashiNotenPayments: boolean;
+  nagashiHonba: boolean;
+  nagashiKyotaku: boolean;
+  chomboRule: ChomboRule;
+  // 错和时支付的固定点数，仅在 chomboRule 为 points 时使用
+  chomboPoints: number;
+  // 错和时终局成绩扣除的分数（千点），仅在 chomboRule 为 uma 时使用
+  chomboUma: number;
+  // 配给原点（开局时每家的点数）
+  startingPoints: number;
+  // 返点（终局计算顺位点时扣除的基准点数）
+  returnPoints: number;
+  // 头名奖励（oka），单位为千点
+  oka: number;
+  finalRounding: FinalRounding;
+  umaPreset: UmaPreset;
+  // 自定义顺位马（一位至四位 / 三麻一位至三位），仅在 umaPreset 为 custom 时使用
+  customUma: number[];
+  customSanmaUma: number[];
+  // 同分顺位规则，顺位、顺位马与终局供托分配共用
+  rankTieRule: RankTieRule;
+  endKyotaku: EndKyotakuRule;
+  // 切上满贯：30符4翻、60符3翻视为满贯
+  kiriageMangan: boolean;
+  // 食断：副露后断幺九是否成立
+  kuitan: boolean;
+  // 连风牌（场风与自风相同）雀头的符数，2 符或 4 符
+  doubleWindPairFu: number;
+  // 累计役满：13 番以上是否视为役满（否则按三倍满计算）
+  kazoeYakuman: boolean;
+  // 多倍役满是否叠加，以及叠加的最高倍数
+  yakumanStacking: boolean;
+  maxYakumanMultiple: number;
+  // 每本场的点数（荣和时由放铳者全额支付，自摸时由三家平摊）
+  honbaValue: number;
+  // 每根立直棒的点数
+  riichiStickValue: number;
+  // 点数不足一根立直棒时是否允许立直
+  riichiWithoutStick: boolean;
+  // 荒牌流局时是否计算未听牌罚符，以及罚符总额
+  notenPayments: boolean;
+  notenBappu: number;
+}
+
+export const DEFAULT_RULES: RuleSet = {
+  playerCount: 4,
+  sanmaTsumo: "tsumo-son",
+  gameLength: "hanchan",
+  extension: "none",
+  targetPoints: 30000,
+  bustRule: "none",
+  bustBonus: 0,
+  bustKyotaku: true,
+  allLastStop: "disabled",
+  multiRon: "all",
+  tripleRon: "abortive",
+  drawRenchan: "tenpai",
+  abortiveRenchan: {
+    kyuushu: true,
+    suufon: true,
+    "suucha-riichi": true,
+    suukaikan: true,
+    "triple-ron": true,
+  },
+  dealerWinHonba: true,
+  drawRotateHonba: true,
+  renchanLimit: 0,
+  paoRule: "split-ron",
+  nagashiNotenPayments: false,
+  nagashiHonba: false,
+  nagashiKyotaku: false,
+  chomboRule: "mangan",
+  chomboPoints: 12000,
+  chomboUma: 20,
+  startingPoints: 25000,
+  returnPoints: 25000,
+  oka: 0,
+  finalRounding: "none",
+  umaPreset: "legacy",
+  customUma: [30, 10, -10, -30],
+  customSanmaUma: [15, 0, -15],
+  rankTieRule: "split",
+  endKyotaku: "top",
+  kiriageMangan: true,
+  kuitan: true,
+  doubleWindPairFu: 4,
+  kazoeYakuman: true,
+  yakumanStacking: true,
+  maxYakumanMultiple: 6,
+  honbaValue: 300,
+  riichiStickValue: 1000,
+  riichiWithoutStick: false,
+  notenPayments: true,
+  notenBappu: 3000,
+};
+
+// 切换为三人麻将 / 四人麻将时一并应用的默认设置
+export const PLAYER_COUNT_PRESETS: Record<
+  3 | 4,
+  Pick<
+    RuleSet,
+    | "playerCount"
+    | "startingPoints"
+    | "returnPoints"
+    | "umaPreset"
+    | "notenBappu"
+  >
+> = {
+  4: {
+    playerCount: 4,
+    startingPoints: 25000,
+    returnPoints: 25000,
+    umaPreset: "legacy",
+    notenBappu: 3000,
+  },
+  3: {
+    playerCount: 3,
+    startingPoints: 35000,
+    returnPoints: 35000,
+    umaPreset: "sanma-15",
+    notenBappu: 2000,
+  },
+};
+
+export const PLAYER_COUNT_LABELS: Record<3 | 4, string> = {
+  4: "四人麻将",
+  3: "三人麻将",
+};
+
+export const SANMA_TSUMO_LABELS: Record<SanmaTsumoRule, string> = {
+  "tsumo-son": "自摸损（北家的一份不支付）",
+  "north-bisected": "北家折半（由两家平摊）",
+};
+
+export const GAME_LENGTH_LABELS: Record<GameLength, string> = {
+  tonpuusen: "东风战",
+  hanchan: "半庄战",
+  issouchan: "一庄战",
+};
+
+export const GAME_EXTENSION_LABELS: Record<GameExtension, string> = {
+  none: "不延长",
+  "sudden-death": "延长一个场风（有人达到目标点数即终局）",
+};
+
+export const BUST_RULE_LABELS: Record<BustRule, string> = {
+  none: "不击飞",
+  "below-zero": "低于0点终局",
+  "zero-or-below": "0点及以下终局",
+};
+
+export const ALL_LAST_STOP_LABELS: Record<AllLastStopRule, string> = {
+  disabled: "不可终止",
+  optional: "庄家可选择终止",
+  forced: "自动终止",
+};
+
+export const DRAW_RENCHAN_LABELS: Record<DrawRenchanRule, string> = {
+  tenpai: "庄家听牌连庄",
+  always: "不论听牌均连庄",
+};
+
+export const MULTI_RON_LABELS: Record<MultiRonRule, string> = {
+  all: "一炮多响（各自支付）",
+  atamahane: "头跳（上家优先）",
+};
+
+export const TRIPLE_RON_LABELS: Record<TripleRonRule, string> = {
+  allowed: "三家和了有效",
+  abortive: "三家和了视为流局",
+};
+
+export const ABORTIVE_DRAW_LABELS: Record<AbortiveDrawReason, string> = {
+  kyuushu: "九种九牌",
+  suufon: "四风连打",
+  "suucha-riichi": "四家立直",
+  suukaikan: "四杠散了",
+  "triple-ron": "三家和了",
+};
+
+export const PAO_RULE_LABELS: Record<PaoRule, string> = {
+  "split-ron": "自摸全额，荣和与放铳者平分",
+  full: "包牌者全额支付",
+};
+
+export const CHOMBO_RULE_LABELS: Record<ChomboRule, string> = {
+  mangan: "满贯罚符",
+  points: "固定点数",
+  uma: "终局成绩扣分",
+};
+
+export const FINAL_ROUNDING_LABELS: Record<FinalRounding, string> = {
+  none: "不取整",
+  truncate: "切舍",
+  round: "四舍五入",
+  "gosha-rokunyu": "五舍六入",
+};
+
+interface UmaPresetDefinition {
+  label: string;
+  uma: number[];
+  // 适用的对局人数，未填写时为四人麻将
+  players?: number;
+  // 选择该预设时一并应用的返点与头名奖励
+  returnPoints?: number;
+  oka?: number;
+}
+
+export const UMA_PRESETS: Record<
+  Exclude<UmaPreset, "custom">,
+  UmaPresetDefinition
+> = {
+  legacy: { label: "默认 +35/+15/-5/-45", uma: [35, 15, -5, -45] },
+  "m-league": { label: "M-League 30/10", uma: [30, 10, -10, -30] },
+  wrc: { label: "WRC 15/5", uma: [15, 5, -5, -15] },
+  // 20/10 与 10-20 是同一顺位马的两种写法，后者另设返点与头名奖励
+  "20-10": {
+    label: "20/10 +20/+10/-10/-20（无头名奖励）",
+    uma: [20, 10, -10, -20],
+  },
+  "10-20-oka": {
+    label: "10-20 +20/+10/-10/-20（返点 30000，头名奖励 +20）",
+    uma: [20, 10, -10, -20],
+    returnPoints: 30000,
+    oka: 20,
+  },
+  "sanma-15": { label: "三麻 +15/0/-15", uma: [15, 0, -15], players: 3 },
+  "sanma-20": { label: "三麻 +20/0/-20", uma: [20, 0, -20], players: 3 },
+};
+
+export const RANK_TIE_RULE_LABELS: Record<RankTieRule, string> = {
+  split: "同分共享顺位（均分顺位马）",
+  seat: "同分按起家座位顺序决定",
+};
+
+export const END_KYOTAKU_LABELS: Record<EndKyotakuRule, string> = {
+  top: "归一位",
+  split: "同分一位均分",
+  forfeit: "作废",
+};
+
+/**
+ * 对局人数，非 3 的值一律视为四人麻将
+ */
+export function getSeatCount(rules: Pick<RuleSet, "playerCount">): 3 | 4 {
+  return rules.playerCount === 3 ? 3 : 4;
+}
+
+/**
+ * 当前人数可选的顺位马预设
+ */
+export function getUmaPresets(
+  rules: Pick<RuleSet, "playerCount">
+): [Exclude<UmaPreset, "custom">, UmaPresetDefinition][] {
+  const players = getSeatCount(rules);
+  return (
+    Object.entries(UMA_PRESETS) as [
+      Exclude<UmaPreset, "custom">,
+      UmaPresetDefinition
+    ][]
+  ).filter(([, preset]) => (preset.players ?? 4) === players);
+}
+
+export function resolveUma(rules: RuleSet): number[] {
+  const players = getSeatCount(rules);
+  if (rules.umaPreset === "custom") {
+    return players === 3 ? rules.customSanmaUma : rules.customUma;
+  }
+  const preset = UMA_PRESETS[rules.umaPreset];
+  // 预设与人数不符时回退到该人数的默认顺位马
+  if (preset && (preset.players ?? 4) === players) return preset.uma;
+  return UMA_PRESETS[players === 3 ? "sanma-15" : "legacy"].uma;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * 从本地存储读取的规则与默认规则合并，字段缺失或类型不符时回退到默认值
+ */
+export function sanitizeRules(input: unknown): RuleSet {
+  if (!input || typeof input !== "object") return { ...DEFAULT_RULES };
+  const source = input as Record<string, unknown>;
+  const rules: Record<string, unknown> = { ...DEFAULT_RULES };
+  Object.entries(DEFAULT_RULES).forEach(([key, fallback]) => {
+    const value = source[key];
+    if (isPlainObject(fallback)) {
+      // 嵌套的规则表逐项合并，缺失或类型不符的项回退到默认值
+      const nested: Record<string, unknown> = { ...fallback };
+      if (isPlainObject(value)) {
+        Object.entries(fallback).forEach(([k, v]) => {
+          if (typeof value[k] === typeof v) nested[k] = value[k];
+        });
+      }
+      rules[key] = nested;
+    } else if (Array.isArray(fallback)) {
+      if (
+        Array.isArray(value) &&
+        value.length === fallback.length &&
+        value.every((v) => typeof v === "number" && Number.isFinite(v))
+      ) {
+        rules[key] = value;
+      }
+    } else if (typeof value === typeof fallback) {
+      rules[key] = value;
+    }
+  });
+  return rules as unknown as RuleSet;
+}
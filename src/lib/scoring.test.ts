@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { findHandCandidates } from "@/lib/payout";
+import { DEFAULT_RULES, PLAYER_COUNT_PRESETS, type RuleSet } from "@/lib/rules";
+import { calcBasePoints, calcTsumoPayments, settle } from "@/lib/scoring";
+import type { CoreSnapshot } from "@/lib/types";
+
+describe("三麻北家折半自摸", () => {
+  const rules = {
+    ...DEFAULT_RULES,
+    ...PLAYER_COUNT_PRESETS[3],
+    sanmaTsumo: "north-bisected" as const,
+    kiriageMangan: false,
+  };
+
+  it.each([
+    [3, 30, false, { nonDealer: 1500, dealer: 2500 }],
+    [4, 30, false, { nonDealer: 3000, dealer: 4900 }],
+    [3, 30, true, { nonDealer: 3000, dealer: 0 }],
+    [4, 30, true, { nonDealer: 5900, dealer: 0 }],
+  ])("%i 番 %i 符（庄家 %s）", (han, fu, winnerIsDealer, expected) => {
+    const basePoints = calcBasePoints(han, fu, rules);
+    expect(calcTsumoPayments(basePoints, winnerIsDealer, rules)).toEqual(
+      expected
+    );
+  });
+
+  it("按点数录入时识别标准点数", () => {
+    const candidates = findHandCandidates(
+      { kind: "split", nonDealer: 1500, dealer: 2500 },
+      "tsumo",
+      false,
+      0,
+      rules
+    );
+    expect(candidates.map((c) => c.label)).toContain("3 番 30 符");
+  });
+});
+
+describe("All Last 庄家终止对局", () => {
+  // 南4局，北家坐庄且位列一位
+  const snapshot: CoreSnapshot = {
+    points: [24000, 24000, 24000, 28000],
+    kyotaku: 0,
+    honba: 0,
+    kyokuIndex: 7,
+    dealerIndex: 3,
+    history: [],
+    names: ["甲", "乙", "丙", "丁"],
+  };
+
+  function dealerRon(rules: RuleSet, han: number) {
+    return settle(
+      snapshot,
+      {
+        type: "ron",
+        loser: 0,
+        winners: [{ winner: 3, han, fu: 30 }],
+        riichi: [false, false, false, false],
+      },
+      rules
+    );
+  }
+
+  const optional: RuleSet = { ...DEFAULT_RULES, allLastStop: "optional" };
+  const extended: RuleSet = { ...optional, extension: "sudden-death" };
+
+  it("没有延长局时可以和了止", () => {
+    expect(dealerRon(optional, 1).dealerMayStop).toBe(true);
+  });
+
+  it("西入规则下无人达到目标点数时不能和了止", () => {
+    const result = dealerRon(extended, 1);
+    expect(result.gameEnded).toBe(false);
+    expect(result.dealerMayStop).toBe(false);
+  });
+
+  it("西入规则下达到目标点数后可以和了止", () => {
+    expect(dealerRon(extended, 2).dealerMayStop).toBe(true);
+  });
+});
+
+describe("击飞奖励", () => {
+  const rules: RuleSet = {
+    ...DEFAULT_RULES,
+    bustRule: "below-zero",
+    bustBonus: 10000,
+  };
+  const snapshot: CoreSnapshot = {
+    points: [5000, 30000, 30000, 35000],
+    kyotaku: 0,
+    honba: 0,
+    kyokuIndex: 1,
+    dealerIndex: 1,
+    history: [],
+    names: ["甲", "乙", "丙", "丁"],
+  };
+
+  it("一炮双响时由被击飞者支付过的和牌者均分", () => {
+    const result = settle(
+      snapshot,
+      {
+        type: "ron",
+        loser: 0,
+        winners: [
+          { winner: 2, han: 1, fu: 30 },
+          { winner: 3, han: 5, fu: 30 },
+        ],
+        riichi: [false, false, false, false],
+      },
+      rules
+    );
+    expect(result.breakdown.bustIndices).toEqual([0]);
+    expect(result.deltas).toEqual([-19000, 0, 6000, 13000]);
+  });
+
+  it("包牌者被击飞时只向其支付过的和牌者支付奖励", () => {
+    const result = settle(
+      snapshot,
+      {
+        type: "ron",
+        loser: 1,
+        winners: [
+          { winner: 2, han: 1, fu: 30 },
+          { winner: 3, han: 0, fu: 0, yakuman: 1, liable: 0 },
+        ],
+        riichi: [false, false, false, false],
+      },
+      rules
+    );
+    expect(result.breakdown.bustIndices).toEqual([0]);
+    expect(result.deltas).toEqual([-26000, -17000, 1000, 42000]);
+  });
+});
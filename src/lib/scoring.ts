@@ -0,0 +1,1234 @@
+import { formatDiff, formatPoints } from "@/lib/format";
+import { canDealerStop, getMaxKyokuIndex, shouldEndGame } from "@/lib/round";
+import {
+  ABORTIVE_DRAW_LABELS,
+  getSeatCount,
+  type AbortiveDrawReason,
+  type RuleSet,
+} from "@/lib/rules";
+import { getKyotakuPoints } from "@/lib/riichi";
+import { computeSnapshotRanks } from "@/lib/standings";
+import {
+  PLAYER_LABELS,
+  type CoreSnapshot,
+  type SeatIndex,
+  type SettlementType,
+} from "@/lib/types";
+
+interface TsumoSettlementInput {
+  type: "tsumo";
+  winner: SeatIndex;
+  han: number;
+  fu: number;
+  // 役满倍数，大于 0 时忽略番符
+  yakuman?: number;
+  // 包牌（责任支付）者，自摸时由其全额支付
+  liable?: SeatIndex | null;
+  riichi: boolean[];
+}
+
+export interface RonWinnerInput {
+  winner: SeatIndex;
+  han: number;
+  fu: number;
+  // 役满倍数，大于 0 时忽略番符
+  yakuman?: number;
+  // 包牌（责任支付）者，荣和时按规则与放铳者分摊
+  liable?: SeatIndex | null;
+}
+
+// 荣和：同一张铳牌可以有多名荣和者（一炮双响 / 三响）
+interface RonSettlementInput {
+  type: "ron";
+  loser: SeatIndex;
+  winners: RonWinnerInput[];
+  riichi: boolean[];
+  // 放铳牌为放铳者的立直宣言牌：立直不成立，不支付立直棒
+  riichiVoided?: boolean;
+}
+
+interface DrawSettlementInput {
+  type: "draw";
+  tenpai: boolean[];
+  // 达成流局满贯的玩家，旧调用方可能不提供
+  nagashi?: boolean[];
+  riichi: boolean[];
+}
+
+// 途中流局：不计罚符，本局立直棒留在场上
+interface AbortiveSettlementInput {
+  type: "abortive";
+  reason: AbortiveDrawReason;
+  riichi: boolean[];
+}
+
+// 错和：本局作废，本局宣告的立直棒全部退还
+interface ChomboSettlementInput {
+  type: "chombo";
+  offender: SeatIndex;
+}
+
+// 手动调整：按给定点差直接修正点数，不影响场次、庄家、本场与场供
+interface AdjustmentSettlementInput {
+  type: "adjustment";
+  deltas: number[];
+  reason: string;
+  // 允许点差总和不为 0（例如修正录入错误的配给原点）
+  allowNonZeroSum?: boolean;
+}
+
+export type SettlementInput =
+  | TsumoSettlementInput
+  | RonSettlementInput
+  | DrawSettlementInput
+  | AbortiveSettlementInput
+  | ChomboSettlementInput
+  | AdjustmentSettlementInput;
+
+// 单笔支付：from 向 to 支付 base（和牌点 / 罚符）与 honba（本场棒）
+export interface SettlementPayment {
+  from: SeatIndex;
+  to: SeatIndex;
+  base: number;
+  honba: number;
+}
+
+export interface SettlementBreakdown {
+  type: SettlementType;
+  basePoints: number | null;
+  // 实际获得支付的和牌者（按放铳者下家起的顺序），首位获得本场棒与供托
+  winners: SeatIndex[];
+  abortiveReason: AbortiveDrawReason | null;
+  payments: SettlementPayment[];
+  riichiIndices: SeatIndex[];
+  tenpaiIndices: SeatIndex[];
+  // 承担包牌责任的玩家
+  liableIndices: SeatIndex[];
+  dealerContinues: boolean;
+  // 连庄次数达到上限而强制轮庄
+  renchanCapped: boolean;
+  // 本次结算后被击飞的玩家，以及因击飞终局而作废的立直棒数量与点数
+  bustIndices: SeatIndex[];
+  forfeitedKyotaku: number;
+  forfeitedPoints: number;
+  // All Last 庄家按规则自动和了止 / 听牌止
+  dealerStopped: boolean;
+}
+
+export interface SettlementResult {
+  deltas: number[];
+  winnerIndex: SeatIndex | null;
+  kyotakuBefore: number;
+  kyotakuAfter: number;
+  // 和牌者收入中的历史立直供托 / 本局立直供托 / 本场棒部分
+  kyotakuIncome: number;
+  riichiIncome: number;
+  honbaIncome: number;
+  next: {
+    kyokuIndex: number;
+    dealerIndex: SeatIndex;
+    honba: number;
+    kyotaku: number;
+    // 场上立直棒的总点数
+    kyotakuPoints: number;
+    renchan: number;
+  };
+  gameEnded: boolean;
+  // 本次结算在终局成绩中扣除的分数（千点），目前仅用于错和罚则
+  umaPenalties: number[];
+  // All Last 庄家和了 / 听牌且位列一位，可由庄家选择是否终止对局
+  dealerMayStop: boolean;
+  breakdown: SettlementBreakdown;
+}
+
+export function roundUpToHundred(value: number): number {
+  return Math.ceil(value / 100) * 100;
+}
+
+/**
+ * 按规则实际计算的役满倍数：不叠加时最多一倍，叠加时不超过上限
+ */
+export function resolveYakumanMultiple(
+  yakuman: number,
+  rules: RuleSet
+): number {
+  if (yakuman <= 0) return 0;
+  if (!rules.yakumanStacking) return 1;
+  return Math.min(yakuman, Math.max(1, rules.maxYakumanMultiple));
+}
+
+export function calcBasePoints(
+  han: number,
+  fu: number,
+  rules: RuleSet,
+  yakuman = 0
+): number {
+  if (yakuman > 0) return 8000 * resolveYakumanMultiple(yakuman, rules);
+  if (han >= 13) return rules.kazoeYakuman ? 8000 : 6000;
+  if (han >= 11) return 6000;
+  if (han >= 8) return 4000;
+  if (han >= 6) return 3000;
+  if (han >= 5) return 2000;
+
+  // 满贯以下按公式 + 切上满贯
+  const raw = fu * Math.pow(2, han + 2);
+
+  // 切上满贯：30符4翻、60符3翻视为满贯
+  if (
+    rules.kiriageMangan &&
+    ((han === 4 && fu === 30) || (han === 3 && fu === 60))
+  ) {
+    return 2000;
+  }
+
+  if (raw > 2000) {
+    return 2000;
+  }
+  return raw;
+}
+
+/**
+ * 校验番符组合，不可能出现的组合返回错误说明，合法时返回 null
+ * 满贯以上不看符数；20 符只有平和自摸（至少 2 番），25 符只有七对子（荣和至少 2 番、自摸至少 3 番）
+ */
+export function validateHanFu(
+  han: number,
+  fu: number,
+  type: "tsumo" | "ron"
+): string | null {
+  if (!Number.isInteger(han) || han <= 0) return "番数必须为正整数";
+  if (!Number.isInteger(fu) || fu <= 0) return "符数必须为正整数";
+  if (han >= 5) return null;
+  if (fu > 110) return "符数不能超过 110 符";
+  if (fu !== 20 && fu !== 25 && (fu < 30 || fu % 10 !== 0)) {
+    return "符数只能为 20、25 或 30 至 110 之间 10 的倍数";
+  }
+  if (fu === 20 && type === "ron") return "荣和不可能为 20 符";
+  if (fu === 20 && han < 2) return "20 符自摸至少 2 番（平和自摸）";
+  if (fu === 25 && han < (type === "tsumo" ? 3 : 2)) {
+    return type === "tsumo"
+      ? "25 符自摸至少 3 番（七对子自摸）"
+      : "25 符荣和至少 2 番（七对子）";
+  }
+  return null;
+}
+
+/**
+ * 自摸时每家支付的和牌点（不含本场棒）
+ * 庄家自摸：各家支付 2 倍基本点；闲家自摸：庄家支付 2 倍、闲家支付 1 倍基本点
+ * 三麻北家折半时，先按四人麻将取整，缺席北家应付点数的一半再加到两家并取整
+ */
+export function calcTsumoPayments(
+  basePoints: number,
+  winnerIsDealer: boolean,
+  rules: RuleSet
+): { dealer: number; nonDealer: number } {
+  const dealer = winnerIsDealer ? 0 : roundUpToHundred(basePoints * 2);
+  const nonDealer = roundUpToHundred(basePoints * (winnerIsDealer ? 2 : 1));
+  if (getSeatCount(rules) !== 3 || rules.sanmaTsumo !== "north-bisected") {
+    return { dealer, nonDealer };
+  }
+  // 缺席北家按闲家取整后应付点数的一半
+  const northShare = nonDealer / 2;
+  return {
+    dealer: winnerIsDealer ? 0 : roundUpToHundred(dealer + northShare),
+    nonDealer: roundUpToHundred(nonDealer + northShare),
+  };
+}
+
+/**
+ * 不含本场棒的标准点数写法：荣和 "7700"，闲家自摸 "2000/3900"，庄家自摸 "3900 all"
+ */
+export function formatPayout(
+  basePoints: number,
+  type: "tsumo" | "ron",
+  winnerIsDealer: boolean,
+  rules: RuleSet
+): string {
+  if (type === "ron") {
+    return String(roundUpToHundred(basePoints * (winnerIsDealer ? 6 : 4)));
+  }
+  const { dealer, nonDealer } = calcTsumoPayments(
+    basePoints,
+    winnerIsDealer,
+    rules
+  );
+  return winnerIsDealer ? `${nonDealer} all` : `${nonDealer}/${dealer}`;
+}
+
+const MULTIPLE_LABELS = ["", "", "双倍", "三倍", "四倍", "五倍", "六倍"];
+
+export function formatYakuman(multiple: number): string {
+  if (multiple <= 1) return "役满";
+  return `${MULTIPLE_LABELS[multiple] ?? `${multiple} 倍`}役满`;
+}
+
+/**
+ * 基本点对应的满贯以上的称呼，满贯以下返回 null
+ */
+export function formatLimit(basePoints: number): string | null {
+  if (basePoints >= 8000) return formatYakuman(Math.floor(basePoints / 8000));
+  if (basePoints >= 6000) return "三倍满";
+  if (basePoints >= 4000) return "倍满";
+  if (basePoints >= 3000) return "跳满";
+  if (basePoints >= 2000) return "满贯";
+  return null;
+}
+
+/**
+ * 历史记录中的手牌价值：役满只写倍数，其余写番符并注明满贯以上的称呼
+ */
+function describeHandValue(
+  hand: { han: number; fu: number; yakuman?: number },
+  rules: RuleSet
+): string {
+  const yakuman = hand.yakuman ?? 0;
+  if (yakuman > 0) {
+    return formatYakuman(resolveYakumanMultiple(yakuman, rules));
+  }
+  const limit =
+    hand.han >= 13 && rules.kazoeYakuman
+      ? "累计役满"
+      : formatLimit(calcBasePoints(hand.han, hand.fu, rules));
+  return `${hand.han} 番 ${hand.fu} 符${limit ? `（${limit}）` : ""}`;
+}
+
+export function ensureSeatIndex(value: number, seats = 4): SeatIndex {
+  return (value % seats) as SeatIndex;
+}
+
+export function applyDeltas(points: number[], deltas: number[]): number[] {
+  return points.map((p, idx) => p + (deltas[idx] ?? 0));
+}
+
+// 三麻时对话框仍可能传入四家的勾选，只取在座的玩家
+function collectIndices(
+  flags: boolean[],
+  seats: number,
+  expected = true
+): SeatIndex[] {
+  return flags
+    .slice(0, seats)
+    .map((v, idx) => (Boolean(v) === expected ? (idx as SeatIndex) : null))
+    .filter((v): v is SeatIndex => v !== null);
+}
+
+/**
+ * 按连庄 / 轮庄推进场次、本场数与连庄次数
+ * keepHonba 为流局：连庄时本场累加，轮庄时按规则累加或清零；和了时庄家连庄按规则累加本场
+ */
+function advanceRound(
+  state: CoreSnapshot,
+  dealerContinues: boolean,
+  keepHonba: boolean,
+  rules: RuleSet
+): {
+  kyokuIndex: number;
+  dealerIndex: SeatIndex;
+  honba: number;
+  renchan: number;
+} {
+  if (dealerContinues) {
+    return {
+      kyokuIndex: state.kyokuIndex,
+      dealerIndex: state.dealerIndex,
+      honba: keepHonba || rules.dealerWinHonba ? state.honba + 1 : 0,
+      renchan: (state.renchan ?? 0) + 1,
+    };
+  }
+  return {
+    kyokuIndex: Math.min(state.kyokuIndex + 1, getMaxKyokuIndex(rules)),
+    dealerIndex: ensureSeatIndex(state.dealerIndex + 1, state.points.length),
+    honba: keepHonba && rules.drawRotateHonba ? state.honba + 1 : 0,
+    renchan: 0,
+  };
+}
+
+// 各类结算计算出的点数变动，尚未处理场次推进与击飞
+interface SettlementOutcome
+  extends Omit<
+    SettlementResult,
+    | "kyotakuBefore"
+    | "next"
+    | "gameEnded"
+    | "umaPenalties"
+    | "dealerMayStop"
+    | "breakdown"
+  > {
+  // 轮庄时是否保留并累加本场（流局）
+  keepHonba: boolean;
+  // 本局重来：场次、庄家与本场均不变（错和）
+  replayRound?: boolean;
+  umaPenalties?: number[];
+  breakdown: Omit<
+    SettlementBreakdown,
+    | "renchanCapped"
+    | "bustIndices"
+    | "forfeitedKyotaku"
+    | "forfeitedPoints"
+    | "dealerStopped"
+  >;
+}
+
+function findBustIndices(points: number[], rules: RuleSet): SeatIndex[] {
+  if (rules.bustRule === "none") return [];
+  return points
+    .map((p, idx) =>
+      (rules.bustRule === "zero-or-below" ? p <= 0 : p < 0)
+        ? (idx as SeatIndex)
+        : null
+    )
+    .filter((v): v is SeatIndex => v !== null);
+}
+
+/**
+ * 击飞奖励的收取者：被击飞者本局支付过的和牌者（一炮多响时由这些和牌者均分）
+ * 未向和牌者支付（例如支付立直棒后被击飞）时归获得供托的和牌者
+ */
+function getBustBonusReceivers(
+  bustIndex: SeatIndex,
+  winnerIndex: SeatIndex | null,
+  breakdown: Pick<SettlementBreakdown, "winners" | "payments">
+): SeatIndex[] {
+  if (winnerIndex === null || bustIndex === winnerIndex) return [];
+  if (breakdown.winners.includes(bustIndex)) return [];
+  const paid = breakdown.winners.filter((winner) =>
+    breakdown.payments.some(
+      (p) => p.from === bustIndex && p.to === winner && p.base + p.honba > 0
+    )
+  );
+  return paid.length > 0 ? paid : [winnerIndex];
+}
+
+/**
+ * 推进场次并处理击飞：被击飞者向和牌者支付击飞奖励，游戏立即终局
+ */
+function finalizeSettlement(
+  state: CoreSnapshot,
+  rules: RuleSet,
+  outcome: SettlementOutcome
+): SettlementResult {
+  const { keepHonba, replayRound, umaPenalties, ...rest } = outcome;
+  const deltas = [...outcome.deltas];
+  // 连庄次数达到上限时强制轮庄
+  const renchanCapped =
+    !replayRound &&
+    outcome.breakdown.dealerContinues &&
+    rules.renchanLimit > 0 &&
+    (state.renchan ?? 0) + 1 >= rules.renchanLimit;
+  const breakdown = {
+    ...outcome.breakdown,
+    dealerContinues: outcome.breakdown.dealerContinues && !renchanCapped,
+    renchanCapped,
+  };
+  const round = replayRound
+    ? {
+        kyokuIndex: state.kyokuIndex,
+        dealerIndex: state.dealerIndex,
+        honba: state.honba,
+        renchan: state.renchan ?? 0,
+      }
+    : advanceRound(state, breakdown.dealerContinues, keepHonba, rules);
+  const bustIndices = findBustIndices(applyDeltas(state.points, deltas), rules);
+  const busted = bustIndices.length > 0;
+
+  if (busted && rules.bustBonus > 0) {
+    bustIndices.forEach((i) => {
+      const receivers = getBustBonusReceivers(
+        i,
+        outcome.winnerIndex,
+        breakdown
+      );
+      if (receivers.length === 0) return;
+      // 均分时以 100 点为单位，余数归距离放铳者最近的和牌者
+      const share = Math.floor(rules.bustBonus / receivers.length / 100) * 100;
+      deltas[i] -= rules.bustBonus;
+      receivers.forEach((receiver) => {
+        deltas[receiver] += share;
+      });
+      deltas[receivers[0]] += rules.bustBonus - share * receivers.length;
+    });
+  }
+
+  // 击飞终局时若规则不分配供托，场上剩余立直棒作废
+  const forfeitedKyotaku =
+    busted && !rules.bustKyotaku ? outcome.kyotakuAfter : 0;
+  const kyotakuAfter = outcome.kyotakuAfter - forfeitedKyotaku;
+  // 场上立直棒的点数：之前的按宣告时的点数，本局新增的按当前规则
+  const kyotakuPoints =
+    outcome.kyotakuAfter === 0
+      ? 0
+      : getKyotakuPoints(state, rules) +
+        (outcome.kyotakuAfter - state.kyotaku) * rules.riichiStickValue;
+  const forfeitedPoints = forfeitedKyotaku > 0 ? kyotakuPoints : 0;
+
+  const nextPoints = applyDeltas(state.points, deltas);
+  const ended =
+    busted ||
+    shouldEndGame(state.kyokuIndex, round.kyokuIndex, nextPoints, rules);
+
+  // All Last 庄家和了或听牌连庄且位列一位时，按规则终止或交由庄家选择
+  const dealerMayStop =
+    !ended &&
+    rules.allLastStop !== "disabled" &&
+    breakdown.type !== "abortive" &&
+    breakdown.dealerContinues &&
+    (breakdown.type !== "draw" ||
+      breakdown.tenpaiIndices.includes(state.dealerIndex)) &&
+    canDealerStop(state.kyokuIndex, nextPoints, rules) &&
+    computeSnapshotRanks({ ...state, points: nextPoints }, rules)[
+      state.dealerIndex
+    ] === 1;
+  const dealerStopped = dealerMayStop && rules.allLastStop === "forced";
+
+  return {
+    ...rest,
+    deltas,
+    kyotakuBefore: state.kyotaku,
+    kyotakuAfter,
+    next: {
+      ...round,
+      kyotaku: kyotakuAfter,
+      kyotakuPoints: kyotakuPoints - forfeitedPoints,
+    },
+    gameEnded: ended || dealerStopped,
+    umaPenalties: umaPenalties ?? state.points.map(() => 0),
+    dealerMayStop: dealerMayStop && !dealerStopped,
+    breakdown: {
+      ...breakdown,
+      bustIndices,
+      forfeitedKyotaku,
+      forfeitedPoints,
+      dealerStopped,
+    },
+  };
+}
+
+/**
+ * 检查手动调整的输入，返回错误提示
+ */
+export function getAdjustmentError(
+  input: Omit<AdjustmentSettlementInput, "type">,
+  seats: number
+): string | null {
+  if (!input.reason.trim()) return "请填写调整原因";
+  const deltas = input.deltas.slice(0, seats);
+  if (deltas.some((v) => !Number.isInteger(v))) return "点差必须为整数";
+  if (deltas.every((v) => v === 0)) return "请填写至少一家的点差";
+  const sum = deltas.reduce((acc, v) => acc + v, 0);
+  if (sum !== 0 && !input.allowNonZeroSum) {
+    return `点差合计为 ${formatPoints(sum)} 点，须为 0`;
+  }
+  return null;
+}
+
+/**
+ * 手动调整：只修改点数，场次、庄家、本场、场供与终局状态均保持不变
+ */
+function settleAdjustment(
+  state: CoreSnapshot,
+  input: AdjustmentSettlementInput,
+  rules: RuleSet
+): SettlementResult {
+  return {
+    deltas: state.points.map((_, idx) => input.deltas[idx] ?? 0),
+    winnerIndex: null,
+    kyotakuBefore: state.kyotaku,
+    kyotakuAfter: state.kyotaku,
+    kyotakuIncome: 0,
+    riichiIncome: 0,
+    honbaIncome: 0,
+    next: {
+      kyokuIndex: state.kyokuIndex,
+      dealerIndex: state.dealerIndex,
+      honba: state.honba,
+      kyotaku: state.kyotaku,
+      kyotakuPoints: getKyotakuPoints(state, rules),
+      renchan: state.renchan ?? 0,
+    },
+    gameEnded: false,
+    umaPenalties: state.points.map(() => 0),
+    dealerMayStop: false,
+    breakdown: {
+      type: "adjustment",
+      basePoints: null,
+      winners: [],
+      abortiveReason: null,
+      payments: [],
+      riichiIndices: [],
+      tenpaiIndices: [],
+      liableIndices: [],
+      dealerContinues: false,
+      renchanCapped: false,
+      bustIndices: [],
+      forfeitedKyotaku: 0,
+      forfeitedPoints: 0,
+      dealerStopped: false,
+    },
+  };
+}
+
+/**
+ * 计算一次结算对各家点数、场供与场次的影响，不修改传入的快照
+ */
+export function settle(
+  state: CoreSnapshot,
+  input: SettlementInput,
+  rules: RuleSet
+): SettlementResult {
+  if (input.type === "chombo") {
+    return settleChombo(state, input, rules);
+  }
+  if (input.type === "adjustment") {
+    return settleAdjustment(state, input, rules);
+  }
+
+  const deltas = state.points.map(() => 0);
+  const riichiIndices = collectIndices(
+    input.riichi,
+    state.points.length
+  ).filter(
+    (i) => !(input.type === "ron" && input.riichiVoided && i === input.loser)
+  );
+
+  riichiIndices.forEach((i) => {
+    deltas[i] -= rules.riichiStickValue;
+  });
+
+  const riichi: RiichiContext = {
+    deltas,
+    riichiIndices,
+    riichiIncome: riichiIndices.length * rules.riichiStickValue,
+  };
+
+  switch (input.type) {
+    case "draw":
+      return settleDraw(state, input, rules, riichi);
+    case "abortive":
+      return settleAbortive(state, input.reason, rules, riichi);
+    case "tsumo":
+      return settleTsumo(state, input, rules, riichi);
+    case "ron":
+      return settleRon(state, input, rules, riichi);
+  }
+}
+
+// 本局立直棒已从 deltas 中扣除
+interface RiichiContext {
+  deltas: number[];
+  riichiIndices: SeatIndex[];
+  riichiIncome: number;
+}
+
+function settleDraw(
+  state: CoreSnapshot,
+  input: DrawSettlementInput,
+  rules: RuleSet,
+  { deltas, riichiIndices, riichiIncome }: RiichiContext
+): SettlementResult {
+  const payments: SettlementPayment[] = [];
+  const seats = state.points.length;
+  const tenpaiIndices = collectIndices(input.tenpai, seats);
+  const notenIndices = collectIndices(input.tenpai, seats, false);
+  // 流局满贯者按庄家起的座位顺序排列，首位按规则收取场上立直棒
+  const nagashiIndices = collectIndices(input.nagashi ?? [], seats).sort(
+    (a, b) =>
+      ((a - state.dealerIndex + seats) % seats) -
+      ((b - state.dealerIndex + seats) % seats)
+  );
+  const hasNagashi = nagashiIndices.length > 0;
+  const basePoints = hasNagashi ? calcBasePoints(5, 0, rules) : null;
+
+  // 流局满贯：按满贯自摸收取点数
+  nagashiIndices.forEach((winner) => {
+    payments.push(
+      ...buildTsumoPayments(
+        state,
+        winner,
+        basePoints as number,
+        rules.nagashiHonba ? state.honba : 0,
+        rules
+      )
+    );
+  });
+
+  // 罚符：未听牌者共支付罚符总额（默认 3000 点，三麻 2000 点），由听牌者平分
+  if (
+    rules.notenPayments &&
+    (!hasNagashi || rules.nagashiNotenPayments) &&
+    tenpaiIndices.length > 0 &&
+    notenIndices.length > 0
+  ) {
+    const base =
+      rules.notenBappu / (notenIndices.length * tenpaiIndices.length);
+    notenIndices.forEach((from) => {
+      tenpaiIndices.forEach((to) => {
+        payments.push({ from, to, base, honba: 0 });
+      });
+    });
+  }
+
+  const honbaIncome = applyPayments(deltas, payments);
+
+  const takesKyotaku = hasNagashi && rules.nagashiKyotaku;
+  const kyotakuPoints = takesKyotaku ? getKyotakuPoints(state, rules) : 0;
+  if (takesKyotaku) {
+    deltas[nagashiIndices[0]] += kyotakuPoints + riichiIncome;
+  }
+
+  return finalizeSettlement(state, rules, {
+    deltas,
+    winnerIndex: hasNagashi ? nagashiIndices[0] : null,
+    kyotakuAfter: takesKyotaku ? 0 : state.kyotaku + riichiIndices.length,
+    kyotakuIncome: kyotakuPoints,
+    riichiIncome,
+    honbaIncome,
+    keepHonba: true,
+    breakdown: {
+      type: "draw",
+      basePoints,
+      winners: nagashiIndices,
+      abortiveReason: null,
+      payments,
+      riichiIndices,
+      tenpaiIndices,
+      liableIndices: [],
+      dealerContinues:
+        rules.drawRenchan === "always" ||
+        input.tenpai[state.dealerIndex] === true,
+    },
+  });
+}
+
+/**
+ * 错和：按规则由错和者支付满贯罚符或固定点数，或在终局成绩中扣分；本局重来
+ */
+function settleChombo(
+  state: CoreSnapshot,
+  input: ChomboSettlementInput,
+  rules: RuleSet
+): SettlementResult {
+  const { offender } = input;
+  const deltas = state.points.map(() => 0);
+  const umaPenalties = state.points.map(() => 0);
+  const payments: SettlementPayment[] = [];
+  // 满贯的基本点
+  const basePoints = calcBasePoints(5, 0, rules);
+  const others = state.points
+    .map((_, idx) => idx as SeatIndex)
+    .filter((idx) => idx !== offender);
+
+  if (rules.chomboRule === "mangan") {
+    // 庄家错和向其余各家支付 2 倍基本点；闲家错和向庄家支付 2 倍、向闲家支付 1 倍
+    others.forEach((to) => {
+      const isDealer =
+        offender === state.dealerIndex || to === state.dealerIndex;
+      payments.push({
+        from: offender,
+        to,
+        base: basePoints * (isDealer ? 2 : 1),
+        honba: 0,
+      });
+    });
+  } else if (rules.chomboRule === "points") {
+    others.forEach((to) => {
+      payments.push({
+        from: offender,
+        to,
+        base: roundUpToHundred(rules.chomboPoints / others.length),
+        honba: 0,
+      });
+    });
+  } else {
+    umaPenalties[offender] = rules.chomboUma;
+  }
+
+  applyPayments(deltas, payments);
+
+  return finalizeSettlement(state, rules, {
+    deltas,
+    winnerIndex: null,
+    kyotakuAfter: state.kyotaku,
+    kyotakuIncome: 0,
+    riichiIncome: 0,
+    honbaIncome: 0,
+    keepHonba: true,
+    replayRound: true,
+    umaPenalties,
+    breakdown: {
+      type: "chombo",
+      basePoints: rules.chomboRule === "mangan" ? basePoints : null,
+      winners: [],
+      abortiveReason: null,
+      payments,
+      riichiIndices: [],
+      tenpaiIndices: [],
+      liableIndices: [],
+      dealerContinues: false,
+    },
+  });
+}
+
+/**
+ * 途中流局：不支付罚符，立直棒留在场上，本场累加；庄家是否连庄由规则按原因决定
+ */
+function settleAbortive(
+  state: CoreSnapshot,
+  reason: AbortiveDrawReason,
+  rules: RuleSet,
+  { deltas, riichiIndices, riichiIncome }: RiichiContext
+): SettlementResult {
+  return finalizeSettlement(state, rules, {
+    deltas,
+    winnerIndex: null,
+    kyotakuAfter: state.kyotaku + riichiIndices.length,
+    kyotakuIncome: 0,
+    riichiIncome,
+    honbaIncome: 0,
+    keepHonba: true,
+    breakdown: {
+      type: "abortive",
+      basePoints: null,
+      winners: [],
+      abortiveReason: reason,
+      payments: [],
+      riichiIndices,
+      tenpaiIndices: [],
+      liableIndices: [],
+      dealerContinues: rules.abortiveRenchan[reason] ?? true,
+    },
+  });
+}
+
+/**
+ * 自摸（含流局满贯）时其余各家的支付，本场棒由其余各家平摊
+ */
+function buildTsumoPayments(
+  state: CoreSnapshot,
+  winner: SeatIndex,
+  basePoints: number,
+  honba: number,
+  rules: RuleSet
+): SettlementPayment[] {
+  const honbaPay = rules.honbaValue / (state.points.length - 1);
+  const amounts = calcTsumoPayments(
+    basePoints,
+    winner === state.dealerIndex,
+    rules
+  );
+  const payments: SettlementPayment[] = [];
+  state.points.forEach((_, idx) => {
+    if (idx === winner) return;
+    const from = idx as SeatIndex;
+    payments.push({
+      from,
+      to: winner,
+      base: from === state.dealerIndex ? amounts.dealer : amounts.nonDealer,
+      honba: honba * honbaPay,
+    });
+  });
+  return payments;
+}
+
+function settleTsumo(
+  state: CoreSnapshot,
+  input: TsumoSettlementInput,
+  rules: RuleSet,
+  { deltas, riichiIndices, riichiIncome }: RiichiContext
+): SettlementResult {
+  const { winner } = input;
+  const basePoints = calcBasePoints(input.han, input.fu, rules, input.yakuman);
+  const winnerIsDealer = winner === state.dealerIndex;
+  const kyotakuPoints = getKyotakuPoints(state, rules);
+  const payments = buildTsumoPayments(
+    state,
+    winner,
+    basePoints,
+    state.honba,
+    rules
+  );
+
+  // 包牌：自摸时各家应付的点数（含本场棒）全部由包牌者支付
+  const liable = resolveLiable(input.liable, [winner]);
+  if (liable !== null) {
+    const total = payments.reduce(
+      (sum, p) => ({ base: sum.base + p.base, honba: sum.honba + p.honba }),
+      { base: 0, honba: 0 }
+    );
+    payments.splice(0, payments.length, {
+      from: liable,
+      to: winner,
+      ...total,
+    });
+  }
+
+  const honbaIncome = applyPayments(deltas, payments);
+  deltas[winner] += kyotakuPoints + riichiIncome;
+
+  return finalizeSettlement(state, rules, {
+    deltas,
+    winnerIndex: winner,
+    kyotakuAfter: 0,
+    kyotakuIncome: kyotakuPoints,
+    riichiIncome,
+    honbaIncome,
+    keepHonba: false,
+    breakdown: {
+      type: "tsumo",
+      basePoints,
+      winners: [winner],
+      abortiveReason: null,
+      payments,
+      riichiIndices,
+      tenpaiIndices: [],
+      liableIndices: liable !== null ? [liable] : [],
+      dealerContinues: winnerIsDealer,
+    },
+  });
+}
+
+/**
+ * 按放铳者下家起的顺序排列荣和者（上家优先）
+ */
+export function orderRonWinners<T extends { winner: SeatIndex }>(
+  winners: T[],
+  loser: SeatIndex,
+  seats = 4
+): T[] {
+  const distance = (seat: SeatIndex) => (seat - loser + seats) % seats;
+  return [...winners].sort((a, b) => distance(a.winner) - distance(b.winner));
+}
+
+function settleRon(
+  state: CoreSnapshot,
+  input: RonSettlementInput,
+  rules: RuleSet,
+  riichi: RiichiContext
+): SettlementResult {
+  const ordered = orderRonWinners(
+    input.winners,
+    input.loser,
+    state.points.length
+  );
+  if (ordered.length >= 3 && rules.tripleRon === "abortive") {
+    return settleAbortive(state, "triple-ron", rules, riichi);
+  }
+
+  const { deltas, riichiIndices, riichiIncome } = riichi;
+  // 头跳：只有距离放铳者最近的荣和者获得支付
+  const paid = rules.multiRon === "atamahane" ? ordered.slice(0, 1) : ordered;
+  const head = paid[0].winner;
+  const kyotakuPoints = getKyotakuPoints(state, rules);
+  const payments: SettlementPayment[] = [];
+  const liableIndices: SeatIndex[] = [];
+  paid.forEach((w, i) => {
+    const multiplier = w.winner === state.dealerIndex ? 6 : 4;
+    const base = roundUpToHundred(
+      multiplier * calcBasePoints(w.han, w.fu, rules, w.yakuman)
+    );
+    const honba = i === 0 ? state.honba * rules.honbaValue : 0;
+    const liable = resolveLiable(w.liable, [w.winner, input.loser]);
+    if (liable === null) {
+      payments.push({ from: input.loser, to: w.winner, base, honba });
+      return;
+    }
+    // 包牌：荣和时包牌者与放铳者各付一半，或由包牌者全额支付；本场棒由放铳者支付
+    liableIndices.push(liable);
+    const liableBase =
+      rules.paoRule === "full" ? base : roundUpToHundred(base / 2);
+    payments.push({
+      from: input.loser,
+      to: w.winner,
+      base: base - liableBase,
+      honba,
+    });
+    payments.push({ from: liable, to: w.winner, base: liableBase, honba: 0 });
+  });
+
+  const honbaIncome = applyPayments(deltas, payments);
+  deltas[head] += kyotakuPoints + riichiIncome;
+
+  return finalizeSettlement(state, rules, {
+    deltas,
+    winnerIndex: head,
+    kyotakuAfter: 0,
+    kyotakuIncome: kyotakuPoints,
+    riichiIncome,
+    honbaIncome,
+    keepHonba: false,
+    breakdown: {
+      type: "ron",
+      basePoints: calcBasePoints(
+        paid[0].han,
+        paid[0].fu,
+        rules,
+        paid[0].yakuman
+      ),
+      winners: paid.map((w) => w.winner),
+      abortiveReason: null,
+      payments,
+      riichiIndices,
+      tenpaiIndices: [],
+      liableIndices,
+      dealerContinues: paid.some((w) => w.winner === state.dealerIndex),
+    },
+  });
+}
+
+/**
+ * 包牌者须为和牌者与放铳者以外的玩家，否则视为无人包牌
+ */
+function resolveLiable(
+  liable: SeatIndex | null | undefined,
+  excluded: SeatIndex[]
+): SeatIndex | null {
+  if (liable === null || liable === undefined) return null;
+  return excluded.includes(liable) ? null : liable;
+}
+
+/**
+ * 将支付计入 deltas，返回其中本场棒的总额
+ */
+function applyPayments(deltas: number[], payments: SettlementPayment[]) {
+  let honbaTotal = 0;
+  payments.forEach((p) => {
+    deltas[p.from] -= p.base + p.honba;
+    deltas[p.to] += p.base + p.honba;
+    honbaTotal += p.honba;
+  });
+  return honbaTotal;
+}
+
+function describeIncome(result: SettlementResult): string {
+  const { kyotakuIncome, riichiIncome } = result;
+  return `${
+    kyotakuIncome > 0
+      ? `，历史立直供托收入 ${formatPoints(kyotakuIncome)} 点`
+      : ""
+  }${
+    riichiIncome > 0
+      ? `，本局立直供托收入 ${formatPoints(riichiIncome)} 点`
+      : ""
+  }`;
+}
+
+function describePayment(payment: SettlementPayment | undefined): string {
+  if (!payment) return "0 点";
+  return `${formatPoints(payment.base + payment.honba)} 点${
+    payment.honba > 0
+      ? `（其中 ${formatPoints(payment.honba)} 点为本场棒）`
+      : ""
+  }`;
+}
+
+/**
+ * All Last 庄家终止对局的说明，庄家自行选择终止时也会追加到历史记录中
+ */
+export function describeDealerStop(
+  state: CoreSnapshot,
+  type: SettlementType
+): string {
+  const dealerName =
+    state.names[state.dealerIndex] ?? PLAYER_LABELS[state.dealerIndex];
+  return `庄家 ${dealerName} ${
+    type === "draw" ? "听牌止" : "和了止"
+  }，对局结束。`;
+}
+
+function describeBust(
+  state: CoreSnapshot,
+  result: SettlementResult,
+  rules: RuleSet
+): string {
+  const { bustIndices, forfeitedKyotaku } = result.breakdown;
+  if (bustIndices.length === 0) return "";
+  const nameOf = (i: SeatIndex) => state.names[i] ?? PLAYER_LABELS[i];
+  const bustNames = bustIndices.map(nameOf).join("、");
+  const bonus = bustIndices
+    .map((i) => {
+      const receivers =
+        rules.bustBonus > 0
+          ? getBustBonusReceivers(i, result.winnerIndex, result.breakdown)
+          : [];
+      if (receivers.length === 0) return "";
+      const split = receivers.length > 1 ? "（均分）" : "";
+      return `，${nameOf(i)} 向 ${receivers
+        .map(nameOf)
+        .join("、")} 支付击飞奖励 ${formatPoints(rules.bustBonus)} 点${split}`;
+    })
+    .join("");
+  return `${bustNames} 被击飞${bonus}${
+    forfeitedKyotaku > 0 ? `，场上 ${forfeitedKyotaku} 根立直棒作废` : ""
+  }，对局结束。`;
+}
+
+/**
+ * 根据结算结果生成历史记录中的结算说明
+ */
+export function describeSettlement(
+  state: CoreSnapshot,
+  input: SettlementInput,
+  result: SettlementResult,
+  rules: RuleSet
+): string {
+  return `${describeHand(state, input, result, rules)}${describeBust(
+    state,
+    result,
+    rules
+  )}${
+    result.breakdown.renchanCapped
+      ? `庄家连庄达到 ${rules.renchanLimit} 次上限，轮庄。`
+      : ""
+  }${
+    result.breakdown.dealerStopped
+      ? describeDealerStop(state, result.breakdown.type)
+      : ""
+  }`;
+}
+
+function describeHand(
+  state: CoreSnapshot,
+  input: SettlementInput,
+  result: SettlementResult,
+  rules: RuleSet
+): string {
+  const nameOf = (i: SeatIndex) => state.names[i] ?? PLAYER_LABELS[i];
+
+  if (input.type === "adjustment") {
+    const parts = result.deltas
+      .map((delta, idx) =>
+        delta === 0
+          ? null
+          : `${nameOf(idx as SeatIndex)} ${formatDiff(delta)} 点`
+      )
+      .filter((part): part is string => part !== null);
+    const sum = result.deltas.reduce((acc, v) => acc + v, 0);
+    return `手动调整（${input.reason.trim()}）：${parts.join("，")}${
+      sum !== 0 ? `，点差合计 ${formatPoints(sum)} 点` : ""
+    }。`;
+  }
+
+  if (input.type === "chombo") {
+    const { offender } = input;
+    const role = offender === state.dealerIndex ? "庄家" : "闲家";
+    const penalty = result.umaPenalties[offender] ?? 0;
+    return `${role} ${nameOf(offender)} 错和，${
+      penalty > 0
+        ? `终局成绩扣除 ${penalty} 分`
+        : `共支付罚符 ${formatPoints(-result.deltas[offender])} 点`
+    }，本局立直棒退还，本局重来。`;
+  }
+
+  if (input.type === "draw") {
+    const tenpaiNames =
+      state.names.filter((_, idx) => input.tenpai[idx]).join("、") || "无";
+    const notenNames =
+      state.names.filter((_, idx) => !input.tenpai[idx]).join("、") || "无";
+    const nagashi = result.breakdown.winners;
+    if (nagashi.length === 0) {
+      return `流局，本局立直供托计入场供 ${formatPoints(
+        result.riichiIncome
+      )} 点，听牌：${tenpaiNames}，未听牌：${notenNames}。`;
+    }
+    const parts = nagashi.map(
+      (winner) =>
+        `${nameOf(winner)} 共收入 ${formatPoints(result.deltas[winner])} 点`
+    );
+    return `流局，流局满贯：${parts.join("；")}${
+      result.kyotakuAfter === 0 &&
+      result.kyotakuIncome + result.riichiIncome > 0
+        ? `（其中 ${nameOf(nagashi[0])} 收取立直供托 ${formatPoints(
+            result.kyotakuIncome + result.riichiIncome
+          )} 点）`
+        : `，本局立直供托计入场供 ${formatPoints(result.riichiIncome)} 点`
+    }，听牌：${tenpaiNames}，未听牌：${notenNames}。`;
+  }
+
+  if (input.type === "abortive" || result.breakdown.abortiveReason) {
+    // 荣和结算被判定为途中流局时只可能是三家和了
+    const reason =
+      input.type === "abortive"
+        ? input.reason
+        : result.breakdown.abortiveReason ?? "triple-ron";
+    return `${
+      ABORTIVE_DRAW_LABELS[reason]
+    }，途中流局，本局立直供托计入场供 ${formatPoints(
+      result.riichiIncome
+    )} 点，${result.breakdown.dealerContinues ? "庄家连庄" : "轮庄"}。`;
+  }
+
+  const { payments } = result.breakdown;
+
+  if (input.type === "ron") {
+    const paid = result.breakdown.winners;
+    const parts = paid.map((winner, i) => {
+      const hand = input.winners.find((w) => w.winner === winner);
+      const role = winner === state.dealerIndex ? "庄家" : "闲家";
+      const received = payments.filter((p) => p.to === winner);
+      const liablePayment = received.find((p) => p.from !== input.loser);
+      const total = received.reduce(
+        (sum, p) => ({
+          ...sum,
+          base: sum.base + p.base,
+          honba: sum.honba + p.honba,
+        }),
+        { from: input.loser, to: winner, base: 0, honba: 0 }
+      );
+      return `${role} ${nameOf(winner)} 荣和 ${nameOf(
+        input.loser
+      )} ${describeHandValue(
+        hand ?? { han: 0, fu: 0 },
+        rules
+      )}，共 ${describePayment(total)}${
+        liablePayment
+          ? `，其中包牌者 ${nameOf(liablePayment.from)} 支付 ${formatPoints(
+              liablePayment.base
+            )} 点`
+          : ""
+      }${i === 0 ? describeIncome(result) : ""}，共收入 ${formatPoints(
+        result.deltas[winner]
+      )} 点`;
+    });
+    const skipped = input.winners.length - paid.length;
+    const voided =
+      input.riichiVoided && input.riichi[input.loser]
+        ? `${nameOf(input.loser)} 的立直宣言牌被荣和，立直不成立。`
+        : "";
+    if (paid.length === 1) {
+      return `${parts[0]}${skipped > 0 ? "（头跳）" : ""}。${voided}`;
+    }
+    return `${paid.length === 2 ? "一炮双响" : "一炮三响"}：${parts.join(
+      "；"
+    )}。${voided}`;
+  }
+
+  const { winner } = input;
+  const winnerIsDealer = winner === state.dealerIndex;
+  const role = winnerIsDealer ? "庄家" : "闲家";
+  const winnerGain = result.deltas[winner];
+  const [liable] = result.breakdown.liableIndices;
+  const handValue = describeHandValue(input, rules);
+
+  if (liable !== undefined) {
+    return `${role} ${nameOf(winner)} 自摸 ${handValue}，包牌者 ${nameOf(
+      liable
+    )} 全额支付 ${describePayment(payments[0])}${describeIncome(
+      result
+    )}，共收入 ${formatPoints(winnerGain)} 点。`;
+  }
+
+  if (winnerIsDealer) {
+    return `${role} ${nameOf(
+      winner
+    )} 自摸 ${handValue}，闲家各支付 ${describePayment(
+      payments[0]
+    )}${describeIncome(result)}，共收入 ${formatPoints(winnerGain)} 点。`;
+  }
+  const dealerPayment = payments.find((p) => p.from === state.dealerIndex);
+  const otherPayment = payments.find((p) => p.from !== state.dealerIndex);
+  return `${role} ${nameOf(winner)} 自摸 ${handValue}，庄家 ${nameOf(
+    state.dealerIndex
+  )} 支付 ${describePayment(dealerPayment)}，其余闲家支付 ${describePayment(
+    otherPayment
+  )}${describeIncome(result)}，共收入 ${formatPoints(winnerGain)} 点。`;
+}
@@ -0,0 +1,187 @@
+import { getKyotakuPoints } from "@/lib/riichi";
+import {
+  resolveUma,
+  type FinalRounding,
+  type RankTieRule,
+  type RuleSet,
+} from "@/lib/rules";
+import type { CoreSnapshot, SeatIndex } from "@/lib/types";
+
+/**
+ * 起家（东1局的庄家）的座位，由当前局序与庄家反推
+ */
+export function getStartingDealer(
+  snapshot: Pick<CoreSnapshot, "points" | "kyokuIndex" | "dealerIndex">
+): SeatIndex {
+  const seats = snapshot.points.length;
+  return ((((snapshot.dealerIndex - snapshot.kyokuIndex) % seats) + seats) %
+    seats) as SeatIndex;
+}
+
+/**
+ * 从起家开始的座位顺序，用于同分时排定先后
+ */
+export function getSeatOrder(
+  index: number,
+  startingDealer: number,
+  seats: number
+): number {
+  return (index - startingDealer + seats) % seats;
+}
+
+/**
+ * 计算顺位：同分时按规则共享顺位，或按起家开始的座位顺序排定先后
+ */
+export function computePlayerRanks(
+  points: number[],
+  tieRule: RankTieRule = "split",
+  startingDealer = 0
+): number[] {
+  const seats = points.length;
+  const entries = points.map((score, index) => ({ index, score }));
+  entries.sort((a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    return (
+      getSeatOrder(a.index, startingDealer, seats) -
+      getSeatOrder(b.index, startingDealer, seats)
+    );
+  });
+
+  const ranks = new Array(points.length).fill(0);
+  let lastScore: number | null = null;
+  let lastRank = 0;
+
+  entries.forEach((entry, idx) => {
+    if (
+      tieRule === "split" &&
+      lastScore !== null &&
+      entry.score === lastScore
+    ) {
+      ranks[entry.index] = lastRank;
+    } else {
+      const rank = idx + 1;
+      ranks[entry.index] = rank;
+      lastRank = rank;
+      lastScore = entry.score;
+    }
+  });
+
+  return ranks;
+}
+
+/**
+ * 按规则计算快照中各家的顺位
+ */
+export function computeSnapshotRanks(
+  snapshot: Pick<CoreSnapshot, "points" | "kyokuIndex" | "dealerIndex">,
+  rules: RuleSet
+): number[] {
+  return computePlayerRanks(
+    snapshot.points,
+    rules.rankTieRule,
+    getStartingDealer(snapshot)
+  );
+}
+
+/**
+ * 终局时场上剩余立直棒的分配，返回各家的收入（作废时全为 0）
+ * 均分时以 100 点为单位，余数归起家座位顺序在前者
+ */
+export function distributeKyotaku(
+  snapshot: Pick<
+    CoreSnapshot,
+    "points" | "kyokuIndex" | "dealerIndex" | "kyotaku" | "kyotakuPoints"
+  >,
+  rules: RuleSet
+): number[] {
+  const deltas = snapshot.points.map(() => 0);
+  const total = getKyotakuPoints(snapshot, rules);
+  if (total === 0 || rules.endKyotaku === "forfeit") return deltas;
+
+  const startingDealer = getStartingDealer(snapshot);
+  const seats = snapshot.points.length;
+  const top = Math.max(...snapshot.points);
+  const ranks = computeSnapshotRanks(snapshot, rules);
+  // 归一位时由顺位为一位的玩家（共享顺位时可能有多人）取得
+  const receivers = snapshot.points
+    .map((_, index) => index)
+    .filter((index) =>
+      rules.endKyotaku === "split"
+        ? snapshot.points[index] === top
+        : ranks[index] === 1
+    )
+    .sort(
+      (a, b) =>
+        getSeatOrder(a, startingDealer, seats) -
+        getSeatOrder(b, startingDealer, seats)
+    );
+  if (receivers.length === 0) return deltas;
+
+  const share = Math.floor(total / receivers.length / 100) * 100;
+  receivers.forEach((index) => {
+    deltas[index] = share;
+  });
+  deltas[receivers[0]] += total - share * receivers.length;
+  return deltas;
+}
+
+/**
+ * 将相对返点的点数换算为千点，按规则取整（正负对称处理）
+ */
+function roundToThousand(value: number, method: FinalRounding): number {
+  const sign = value < 0 ? -1 : 1;
+  const abs = Math.abs(value);
+  switch (method) {
+    case "truncate":
+      return sign * Math.floor(abs / 1000);
+    case "round":
+      return sign * Math.floor((abs + 500) / 1000);
+    case "gosha-rokunyu":
+      return sign * Math.floor((abs + 400) / 1000);
+    default:
+      return value / 1000;
+  }
+}
+
+/**
+ * 计算终局成绩：(点数 - 返点) / 1000 + 顺位马 + 头名奖励 - 罚则扣分
+ * 顺位相同（共享顺位）的玩家均分所占顺位的马点与头名奖励
+ */
+export function computeUma(
+  points: number[],
+  ranks: number[],
+  rules: RuleSet,
+  penalties: number[] = []
+): number[] {
+  const uma = resolveUma(rules);
+  const sortedPlayers = points
+    .map((p, i) => ({ p, r: ranks[i], i }))
+    .sort((a, b) => a.r - b.r || a.i - b.i);
+
+  const results = new Array(points.length).fill(0);
+  let position = 0;
+  while (position < sortedPlayers.length) {
+    const rank = sortedPlayers[position].r;
+    let size = 1;
+    while (
+      position + size < sortedPlayers.length &&
+      sortedPlayers[position + size].r === rank
+    ) {
+      size += 1;
+    }
+    const shared = uma.slice(position, position + size);
+    const umaShare = shared.reduce((sum, v) => sum + v, 0) / size;
+    const okaShare = position === 0 ? rules.oka / size : 0;
+
+    sortedPlayers.slice(position, position + size).forEach((player) => {
+      results[player.i] =
+        roundToThousand(player.p - rules.returnPoints, rules.finalRounding) +
+        umaShare +
+        okaShare -
+        (penalties[player.i] ?? 0);
+    });
+    position += size;
+  }
+
+  return results;
+}
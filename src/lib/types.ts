@@ -0,0 +1,89 @@
+import type { GameEvent } from "@/lib/events";
+import type { RuleSet } from "@/lib/rules";
+import type { SettlementInput } from "@/lib/scoring";
+
+export const PLAYER_LABELS = ["东风家", "南风家", "西风家", "北风家"] as const;
+
+// 座位编号，三人麻将只使用 0-2
+export type SeatIndex = 0 | 1 | 2 | 3;
+
+export type RoundWind = "东" | "南" | "西" | "北";
+
+export type SettlementType =
+  | "tsumo"
+  | "ron"
+  | "draw"
+  | "abortive"
+  | "chombo"
+  | "adjustment";
+
+// 记录的役种与番数，役满记为 13 番，宝牌类按张数计番
+export interface YakuRecord {
+  name: string;
+  han: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  type: SettlementType;
+  roundLabel: string;
+  dealerLabel: string;
+  riichiCount: number;
+  description: string;
+  timestamp: string;
+  // 当时各家的昵称快照（按东南西北顺序），旧记录可能不存在
+  playerNames?: string[];
+  // 当局宣告立直的玩家昵称快照（按东南西北顺序），旧记录可能不存在
+  riichiPlayers?: string[];
+  // 当局承担包牌责任的玩家昵称快照，旧记录可能不存在
+  liablePlayers?: string[];
+  // 和牌者的昵称快照与录入的役种，未按役种录入时不存在
+  winnerYaku?: { player: string; yaku: YakuRecord[] }[];
+  // 当局各家的点差变动（按东南西北顺序），旧记录可能不存在
+  deltas?: number[];
+  // 录入时的结算输入，修改之前的记录后据此重算；旧记录可能不存在
+  input?: SettlementInput;
+  // 终局时分配剩余立直供托的记录
+  kyotakuDistribution?: boolean;
+  // All Last 庄家在本局结算后选择终止对局
+  dealerStopped?: boolean;
+}
+
+// 由初始快照依次重放事件得到的对局状态
+export interface CoreSnapshot {
+  // 各家点数，长度即对局人数
+  points: number[];
+  kyotaku: number; // 场供立直棒数量
+  // 场供立直棒的总点数（按各自宣告时的立直棒点数），旧记录可能不存在
+  kyotakuPoints?: number;
+  // 已作废的立直棒点数合计，旧记录可能不存在
+  forfeitedPoints?: number;
+  honba: number;
+  kyokuIndex: number; // 0-3: 东1-4, 4-7: 南1-4, 8-11: 西1-4, 12-15: 北1-4（三麻每个场风 3 局）
+  dealerIndex: SeatIndex;
+  // 当前庄家已连续连庄的次数，旧记录可能不存在
+  renchan?: number;
+  // 是否已终局（西入等延长局中有人达到目标点数时提前结束），旧记录可能不存在
+  finished?: boolean;
+  // 本局已宣告立直（立直棒已支付并计入场供）的玩家，旧记录可能不存在
+  riichiDeclared?: boolean[];
+  // 错和等罚则在终局成绩中扣除的分数（千点，按东南西北顺序），旧记录可能不存在
+  umaPenalties?: number[];
+  history: HistoryEntry[];
+  // 当前各家的昵称（按东南西北顺序）
+  names: string[];
+}
+
+// 对局以事件序列保存，当前快照与撤销 / 重做都通过重放事件得到
+export interface GameState {
+  // 开局时的快照（由旧版存档迁移时为迁移时的当前快照）
+  initial: CoreSnapshot;
+  // 开局时的规则；对局中修改规则记录为事件，只影响之后的事件
+  initialRules: RuleSet;
+  // 按录入顺序追加的事件
+  events: GameEvent[];
+  // 当前生效的事件数，之后的事件可以重做
+  head: number;
+  // 当前的对局规则，不随撤销 / 重做变化
+  rules: RuleSet;
+}
@@ -0,0 +1,423 @@
+import type { RuleSet } from "@/lib/rules";
+import type { YakuRecord } from "@/lib/types";
+
+export interface YakuDefinition {
+  id: string;
+  name: string;
+  // 门前时的番数，役满为 13
+  closedHan: number;
+  // 副露时的番数，null 表示门前限定
+  openHan: number | null;
+  // 役满倍数，普通役不填
+  yakuman?: number;
+  // 仅自摸或仅荣和时成立
+  win?: "tsumo" | "ron";
+  // 不能同时成立的役（只需在其中一方登记）
+  incompatible?: string[];
+}
+
+const YAKUHAI = ["haku", "hatsu", "chun", "bakaze", "jikaze"];
+
+// 全部由顺子构成才能成立的役
+const SEQUENCE_YAKU = ["pinfu", "iipeikou", "ryanpeikou", "sanshoku", "ittsu"];
+
+export const YAKU_LIST: YakuDefinition[] = [
+  { id: "riichi", name: "立直", closedHan: 1, openHan: null },
+  {
+    id: "double-riichi",
+    name: "两立直",
+    closedHan: 2,
+    openHan: null,
+    incompatible: ["riichi"],
+  },
+  { id: "ippatsu", name: "一发", closedHan: 1, openHan: null },
+  {
+    id: "menzen-tsumo",
+    name: "门前清自摸和",
+    closedHan: 1,
+    openHan: null,
+    win: "tsumo",
+  },
+  {
+    id: "pinfu",
+    name: "平和",
+    closedHan: 1,
+    openHan: null,
+    incompatible: [...YAKUHAI, "rinshan"],
+  },
+  {
+    id: "tanyao",
+    name: "断幺九",
+    closedHan: 1,
+    openHan: 1,
+    incompatible: [...YAKUHAI, "ittsu", "shousangen"],
+  },
+  { id: "iipeikou", name: "一杯口", closedHan: 1, openHan: null },
+  { id: "haku", name: "役牌 白", closedHan: 1, openHan: 1 },
+  { id: "hatsu", name: "役牌 发", closedHan: 1, openHan: 1 },
+  { id: "chun", name: "役牌 中", closedHan: 1, openHan: 1 },
+  { id: "bakaze", name: "场风", closedHan: 1, openHan: 1 },
+  { id: "jikaze", name: "自风", closedHan: 1, openHan: 1 },
+  { id: "rinshan", name: "岭上开花", closedHan: 1, openHan: 1, win: "tsumo" },
+  { id: "chankan", name: "抢杠", closedHan: 1, openHan: 1, win: "ron" },
+  {
+    id: "haitei",
+    name: "海底摸月",
+    closedHan: 1,
+    openHan: 1,
+    win: "tsumo",
+    incompatible: ["rinshan"],
+  },
+  {
+    id: "houtei",
+    name: "河底捞鱼",
+    closedHan: 1,
+    openHan: 1,
+    win: "ron",
+    incompatible: ["chankan"],
+  },
+  {
+    id: "chiitoitsu",
+    name: "七对子",
+    closedHan: 2,
+    openHan: null,
+    incompatible: [
+      ...SEQUENCE_YAKU,
+      ...YAKUHAI,
+      "chanta",
+      "junchan",
+      "toitoi",
+      "sanankou",
+      "sankantsu",
+      "sanshoku-doukou",
+      "shousangen",
+      "rinshan",
+    ],
+  },
+  {
+    id: "sanshoku",
+    name: "三色同顺",
+    closedHan: 2,
+    openHan: 1,
+    incompatible: ["ittsu", "sanshoku-doukou"],
+  },
+  { id: "ittsu", name: "一气通贯", closedHan: 2, openHan: 1 },
+  {
+    id: "chanta",
+    name: "混全带幺九",
+    closedHan: 2,
+    openHan: 1,
+    incompatible: ["tanyao", "junchan", "ittsu"],
+  },
+  {
+    id: "toitoi",
+    name: "对对和",
+    closedHan: 2,
+    openHan: 2,
+    incompatible: SEQUENCE_YAKU,
+  },
+  {
+    id: "sanankou",
+    name: "三暗刻",
+    closedHan: 2,
+    openHan: 2,
+    incompatible: ["pinfu"],
+  },
+  {
+    id: "sanshoku-doukou",
+    name: "三色同刻",
+    closedHan: 2,
+    openHan: 2,
+    incompatible: ["pinfu"],
+  },
+  {
+    id: "sankantsu",
+    name: "三杠子",
+    closedHan: 2,
+    openHan: 2,
+    incompatible: ["pinfu"],
+  },
+  {
+    id: "shousangen",
+    name: "小三元",
+    closedHan: 2,
+    openHan: 2,
+    incompatible: ["pinfu"],
+  },
+  {
+    id: "honroutou",
+    name: "混老头",
+    closedHan: 2,
+    openHan: 2,
+    incompatible: [...SEQUENCE_YAKU, "tanyao", "chanta", "junchan"],
+  },
+  {
+    id: "ryanpeikou",
+    name: "二杯口",
+    closedHan: 3,
+    openHan: null,
+    incompatible: ["iipeikou", "toitoi"],
+  },
+  {
+    id: "honitsu",
+    name: "混一色",
+    closedHan: 3,
+    openHan: 2,
+    incompatible: ["tanyao", "sanshoku", "sanshoku-doukou", "junchan"],
+  },
+  {
+    id: "junchan",
+    name: "纯全带幺九",
+    closedHan: 3,
+    openHan: 2,
+    incompatible: [...YAKUHAI, "tanyao", "ittsu", "shousangen"],
+  },
+  {
+    id: "chinitsu",
+    name: "清一色",
+    closedHan: 6,
+    openHan: 5,
+    incompatible: [
+      ...YAKUHAI,
+      "honitsu",
+      "sanshoku",
+      "sanshoku-doukou",
+      "chanta",
+      "shousangen",
+    ],
+  },
+  {
+    id: "kokushi",
+    name: "国士无双",
+    closedHan: 13,
+    openHan: null,
+    yakuman: 1,
+  },
+  {
+    id: "suuankou",
+    name: "四暗刻",
+    closedHan: 13,
+    openHan: null,
+    yakuman: 1,
+    incompatible: ["kokushi"],
+  },
+  {
+    id: "daisangen",
+    name: "大三元",
+    closedHan: 13,
+    openHan: 13,
+    yakuman: 1,
+    incompatible: ["kokushi"],
+  },
+  {
+    id: "shousuushii",
+    name: "小四喜",
+    closedHan: 13,
+    openHan: 13,
+    yakuman: 1,
+    incompatible: ["kokushi", "daisangen"],
+  },
+  {
+    id: "daisuushii",
+    name: "大四喜",
+    closedHan: 13,
+    openHan: 13,
+    yakuman: 1,
+    incompatible: ["kokushi", "daisangen", "shousuushii"],
+  },
+  {
+    id: "tsuuiisou",
+    name: "字一色",
+    closedHan: 13,
+    openHan: 13,
+    yakuman: 1,
+    incompatible: ["kokushi"],
+  },
+  {
+    id: "ryuuiisou",
+    name: "绿一色",
+    closedHan: 13,
+    openHan: 13,
+    yakuman: 1,
+    incompatible: [
+      "kokushi",
+      "daisangen",
+      "shousuushii",
+      "daisuushii",
+      "tsuuiisou",
+    ],
+  },
+  {
+    id: "chinroutou",
+    name: "清老头",
+    closedHan: 13,
+    openHan: 13,
+    yakuman: 1,
+    incompatible: [
+      "kokushi",
+      "daisangen",
+      "shousuushii",
+      "daisuushii",
+      "tsuuiisou",
+      "ryuuiisou",
+    ],
+  },
+  {
+    id: "chuuren",
+    name: "九莲宝灯",
+    closedHan: 13,
+    openHan: null,
+    yakuman: 1,
+    incompatible: [
+      "kokushi",
+      "suuankou",
+      "daisangen",
+      "shousuushii",
+      "daisuushii",
+      "tsuuiisou",
+      "ryuuiisou",
+      "chinroutou",
+    ],
+  },
+  {
+    id: "suukantsu",
+    name: "四杠子",
+    closedHan: 13,
+    openHan: 13,
+    yakuman: 1,
+    incompatible: ["kokushi", "chuuren"],
+  },
+  {
+    id: "tenhou",
+    name: "天和",
+    closedHan: 13,
+    openHan: null,
+    yakuman: 1,
+    win: "tsumo",
+  },
+  {
+    id: "chiihou",
+    name: "地和",
+    closedHan: 13,
+    openHan: null,
+    yakuman: 1,
+    win: "tsumo",
+    incompatible: ["tenhou"],
+  },
+];
+
+const YAKU_BY_ID = new Map(YAKU_LIST.map((yaku) => [yaku.id, yaku]));
+
+/**
+ * 按门前 / 副露取得役的番数，不能成立时返回 null（食断按规则处理）
+ */
+export function getYakuHan(
+  yaku: YakuDefinition,
+  menzen: boolean,
+  rules: RuleSet
+): number | null {
+  if (menzen) return yaku.closedHan;
+  if (yaku.id === "tanyao" && !rules.kuitan) return null;
+  return yaku.openHan;
+}
+
+function isIncompatible(a: YakuDefinition, b: YakuDefinition): boolean {
+  return !!a.incompatible?.includes(b.id) || !!b.incompatible?.includes(a.id);
+}
+
+/**
+ * 判断一个役在当前选择下能否成立，返回不能成立的原因
+ */
+export function getYakuConflict(
+  id: string,
+  selected: string[],
+  menzen: boolean,
+  type: "tsumo" | "ron",
+  rules: RuleSet
+): string | null {
+  const yaku = YAKU_BY_ID.get(id);
+  if (!yaku) return "未知的役种";
+  if (getYakuHan(yaku, menzen, rules) === null) {
+    return yaku.id === "tanyao" && !rules.kuitan ? "无食断" : "门前限定";
+  }
+  if (yaku.win && yaku.win !== type) {
+    return yaku.win === "tsumo" ? "仅限自摸" : "仅限荣和";
+  }
+  const conflict = selected
+    .map((other) => YAKU_BY_ID.get(other))
+    .find((other) => other && other.id !== id && isIncompatible(yaku, other));
+  return conflict ? `与${conflict.name}不能复合` : null;
+}
+
+export interface YakuSelection {
+  selected: string[];
+  menzen: boolean;
+  dora: number;
+  aka: number;
+  ura: number;
+  // 三麻拔北宝牌的番数
+  nuki: number;
+}
+
+export interface YakuTotal {
+  yaku: YakuRecord[];
+  han: number;
+  // 平和、七对子等能确定符数时给出
+  fu?: number;
+  yakuman: number;
+}
+
+/**
+ * 由选择的役与宝牌数计算番数；有役满时只计役满
+ */
+export function computeYakuTotal(
+  selection: YakuSelection,
+  type: "tsumo" | "ron",
+  rules: RuleSet
+): YakuTotal | { error: string } {
+  const { selected, menzen, dora, aka, ura, nuki } = selection;
+  if (selected.length === 0) return { error: "请选择役种" };
+  for (const id of selected) {
+    const conflict = getYakuConflict(id, selected, menzen, type, rules);
+    if (conflict) return { error: `${YAKU_BY_ID.get(id)?.name}：${conflict}` };
+  }
+  const definitions = selected
+    .map((id) => YAKU_BY_ID.get(id))
+    .filter((yaku): yaku is YakuDefinition => !!yaku);
+
+  const yakuman = definitions.filter((yaku) => yaku.yakuman);
+  if (yakuman.length > 0) {
+    return {
+      yaku: yakuman.map((yaku) => ({ name: yaku.name, han: 13 })),
+      han: 0,
+      yakuman: yakuman.reduce((sum, yaku) => sum + (yaku.yakuman ?? 0), 0),
+    };
+  }
+
+  const hasRiichi =
+    selected.includes("riichi") || selected.includes("double-riichi");
+  if (selected.includes("ippatsu") && !hasRiichi) {
+    return { error: "一发需要立直" };
+  }
+  if (ura > 0 && !hasRiichi) return { error: "未立直时不计里宝牌" };
+
+  const yaku: YakuRecord[] = definitions.map((definition) => ({
+    name: definition.name,
+    han: getYakuHan(definition, menzen, rules) ?? 0,
+  }));
+  if (dora > 0) yaku.push({ name: "宝牌", han: dora });
+  if (aka > 0) yaku.push({ name: "赤宝牌", han: aka });
+  if (ura > 0) yaku.push({ name: "里宝牌", han: ura });
+  if (nuki > 0) yaku.push({ name: "拔北宝牌", han: nuki });
+
+  let fu: number | undefined;
+  if (selected.includes("chiitoitsu")) fu = 25;
+  else if (selected.includes("pinfu")) fu = type === "tsumo" ? 20 : 30;
+
+  return {
+    yaku,
+    han: yaku.reduce((sum, item) => sum + item.han, 0),
+    fu,
+    yakuman: 0,
+  };
+}